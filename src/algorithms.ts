@@ -0,0 +1,353 @@
+// Graph algorithms over the stored nodes and edges
+import { ValidationError } from "./errors";
+import type { EdgeFilter, GraphDatabase, NodeQuery, SearchQuery } from "./index";
+
+export interface AlgorithmOptions {
+  /** Only include nodes matching this query; edges are kept when both ends are included */
+  nodes?: SearchQuery | NodeQuery<any>;
+  /** Only include edges whose properties have these values */
+  edges?: EdgeFilter['where'];
+  /**
+   * Which way edges are followed: as stored ('outbound', the default), reversed ('inbound'),
+   * or ignoring direction ('both')
+   */
+  direction?: 'outbound' | 'inbound' | 'both';
+  /** Store each node's result under this body key */
+  writeTo?: string;
+}
+
+export interface PageRankOptions extends AlgorithmOptions {
+  /** Defaults to 0.85 */
+  damping?: number;
+  /** Defaults to 100 */
+  maxIterations?: number;
+  /** Stop once the total change per node falls below this; defaults to 1e-6 */
+  tolerance?: number;
+}
+
+export interface CentralityOptions extends AlgorithmOptions {
+  /** Scale degree by 1/(n-1) and betweenness by 1/((n-1)(n-2)) */
+  normalized?: boolean;
+}
+
+// Nodes are addressed by position while an algorithm runs
+interface Adjacency {
+  ids: string[];
+  neighbours: number[][];
+}
+
+function loadAdjacency(graph: GraphDatabase<any, any>, options: AlgorithmOptions): Adjacency {
+  const direction = options.direction || 'outbound';
+  if (direction !== 'outbound' && direction !== 'inbound' && direction !== 'both') {
+    throw new ValidationError(`Invalid direction: ${direction}`);
+  }
+
+  const ids: string[] = [];
+  const index = new Map<string | number, number>();
+  for (const row of graph.iterateNodes({ ...(options.nodes ? toSearch(options.nodes) : {}), resultColumn: 'id' })) {
+    index.set(row.id, ids.length);
+    ids.push(row.id);
+  }
+
+  const neighbours: number[][] = ids.map(() => []);
+  for (const edge of graph.iterateEdges({ where: options.edges })) {
+    const source = index.get(edge.source);
+    const target = index.get(edge.target);
+    if (source === undefined || target === undefined) continue;
+    if (direction !== 'inbound') neighbours[source]!.push(target);
+    if (direction !== 'outbound') neighbours[target]!.push(source);
+  }
+  return { ids, neighbours };
+}
+
+function toSearch(query: SearchQuery | NodeQuery<any>): SearchQuery {
+  return 'toSearchQuery' in query ? query.toSearchQuery() : query;
+}
+
+function writeResults(graph: GraphDatabase<any, any>, key: string | undefined, results: Map<string, unknown>): void {
+  if (!key) return;
+  graph.transaction(tx => {
+    for (const [id, value] of results) {
+      // Results are keyed by the text id; write back under the body's own id so a numeric id stays numeric
+      const node = tx.findNode(id) as { id?: string | number } | null;
+      tx.upsertNode(node?.id ?? id, { [key]: value });
+    }
+  });
+}
+
+function componentResults(components: string[][]): Map<string, number> {
+  const results = new Map<string, number>();
+  components.forEach((component, i) => component.forEach(id => results.set(id, i)));
+  return results;
+}
+
+/** Components of the graph with edge direction ignored, largest first */
+export function weaklyConnectedComponents(graph: GraphDatabase<any, any>, options: AlgorithmOptions = {}): string[][] {
+  const { ids, neighbours } = loadAdjacency(graph, { ...options, direction: 'both' });
+  const seen = new Uint8Array(ids.length);
+  const components: string[][] = [];
+
+  for (let start = 0; start < ids.length; start++) {
+    if (seen[start]) continue;
+    seen[start] = 1;
+    const component: string[] = [];
+    const stack = [start];
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      component.push(ids[node]!);
+      for (const next of neighbours[node]!) {
+        if (!seen[next]) {
+          seen[next] = 1;
+          stack.push(next);
+        }
+      }
+    }
+    components.push(component);
+  }
+
+  components.sort((a, b) => b.length - a.length);
+  writeResults(graph, options.writeTo, componentResults(components));
+  return components;
+}
+
+/** Sets of nodes that can all reach each other, largest first (Tarjan's algorithm) */
+export function stronglyConnectedComponents(graph: GraphDatabase<any, any>, options: AlgorithmOptions = {}): string[][] {
+  const { ids, neighbours } = loadAdjacency(graph, options);
+  const order = new Int32Array(ids.length).fill(-1);
+  const low = new Int32Array(ids.length);
+  const onStack = new Uint8Array(ids.length);
+  const stack: number[] = [];
+  const components: string[][] = [];
+  let counter = 0;
+
+  // Iterative DFS; each frame remembers how far through its neighbours it got
+  for (let start = 0; start < ids.length; start++) {
+    if (order[start] !== -1) continue;
+    const frames: { node: number; next: number }[] = [{ node: start, next: 0 }];
+    order[start] = low[start] = counter++;
+    stack.push(start);
+    onStack[start] = 1;
+
+    while (frames.length > 0) {
+      const frame = frames[frames.length - 1]!;
+      const edges = neighbours[frame.node]!;
+      if (frame.next < edges.length) {
+        const next = edges[frame.next++]!;
+        if (order[next] === -1) {
+          order[next] = low[next] = counter++;
+          stack.push(next);
+          onStack[next] = 1;
+          frames.push({ node: next, next: 0 });
+        } else if (onStack[next]) {
+          low[frame.node] = Math.min(low[frame.node]!, order[next]!);
+        }
+        continue;
+      }
+
+      frames.pop();
+      const parent = frames[frames.length - 1];
+      if (parent) {
+        low[parent.node] = Math.min(low[parent.node]!, low[frame.node]!);
+      }
+      if (low[frame.node] === order[frame.node]) {
+        const component: string[] = [];
+        let member: number;
+        do {
+          member = stack.pop()!;
+          onStack[member] = 0;
+          component.push(ids[member]!);
+        } while (member !== frame.node);
+        components.push(component.reverse());
+      }
+    }
+  }
+
+  components.sort((a, b) => b.length - a.length);
+  writeResults(graph, options.writeTo, componentResults(components));
+  return components;
+}
+
+/** PageRank scores summing to 1; rank held by nodes without edges is spread evenly */
+export function pageRank(graph: GraphDatabase<any, any>, options: PageRankOptions = {}): Map<string, number> {
+  const damping = options.damping ?? 0.85;
+  const maxIterations = options.maxIterations ?? 100;
+  const tolerance = options.tolerance ?? 1e-6;
+  if (!(damping >= 0 && damping <= 1)) {
+    throw new ValidationError('damping must be between 0 and 1');
+  }
+  if (!Number.isInteger(maxIterations) || maxIterations < 1) {
+    throw new ValidationError('maxIterations must be a positive integer');
+  }
+
+  const { ids, neighbours } = loadAdjacency(graph, options);
+  const n = ids.length;
+  let rank = new Float64Array(n).fill(1 / n);
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    const next = new Float64Array(n);
+    let dangling = 0;
+    for (let node = 0; node < n; node++) {
+      const edges = neighbours[node]!;
+      if (edges.length === 0) {
+        dangling += rank[node]!;
+        continue;
+      }
+      const share = rank[node]! / edges.length;
+      for (const target of edges) {
+        next[target] = next[target]! + share;
+      }
+    }
+
+    let change = 0;
+    for (let node = 0; node < n; node++) {
+      next[node] = (1 - damping) / n + damping * (next[node]! + dangling / n);
+      change += Math.abs(next[node]! - rank[node]!);
+    }
+    rank = next;
+    if (change < n * tolerance) break;
+  }
+
+  const results = new Map(ids.map((id, node) => [id, rank[node]!]));
+  writeResults(graph, options.writeTo, results);
+  return results;
+}
+
+/** Number of edges per node in the given direction ('both' counts every edge) */
+export function degreeCentrality(graph: GraphDatabase<any, any>, options: CentralityOptions = {}): Map<string, number> {
+  const { ids, neighbours } = loadAdjacency(graph, options);
+  const scale = options.normalized && ids.length > 1 ? 1 / (ids.length - 1) : 1;
+  const results = new Map(ids.map((id, node) => [id, neighbours[node]!.length * scale]));
+  writeResults(graph, options.writeTo, results);
+  return results;
+}
+
+/** Number of shortest paths between other nodes passing through each node (Brandes' algorithm) */
+export function betweennessCentrality(graph: GraphDatabase<any, any>, options: CentralityOptions = {}): Map<string, number> {
+  const { ids, neighbours } = loadAdjacency(graph, options);
+  const n = ids.length;
+  const centrality = new Float64Array(n);
+
+  for (let source = 0; source < n; source++) {
+    const order: number[] = [];
+    const predecessors: number[][] = ids.map(() => []);
+    const paths = new Float64Array(n);
+    const distance = new Int32Array(n).fill(-1);
+    paths[source] = 1;
+    distance[source] = 0;
+
+    const queue = [source];
+    for (let head = 0; head < queue.length; head++) {
+      const node = queue[head]!;
+      order.push(node);
+      for (const next of neighbours[node]!) {
+        if (distance[next] === -1) {
+          distance[next] = distance[node]! + 1;
+          queue.push(next);
+        }
+        if (distance[next] === distance[node]! + 1) {
+          paths[next] = paths[next]! + paths[node]!;
+          predecessors[next]!.push(node);
+        }
+      }
+    }
+
+    const dependency = new Float64Array(n);
+    for (let i = order.length - 1; i > 0; i--) {
+      const node = order[i]!;
+      for (const previous of predecessors[node]!) {
+        dependency[previous] = dependency[previous]! + (paths[previous]! / paths[node]!) * (1 + dependency[node]!);
+      }
+      centrality[node] = centrality[node]! + dependency[node]!;
+    }
+  }
+
+  // Without direction every path is found from both of its ends
+  let scale = 1;
+  if (options.normalized && n > 2) {
+    scale = 1 / ((n - 1) * (n - 2));
+  } else if (options.direction === 'both') {
+    scale = 0.5;
+  }
+  const results = new Map(ids.map((id, node) => [id, centrality[node]! * scale]));
+  writeResults(graph, options.writeTo, results);
+  return results;
+}
+
+/**
+ * One cycle as a list of node ids, where each node links to the next and the last links
+ * back to the first; null when the graph is acyclic. With direction 'both' a pair of
+ * parallel edges counts as a cycle.
+ */
+export function findCycle(graph: GraphDatabase<any, any>, options: Omit<AlgorithmOptions, 'writeTo'> = {}): string[] | null {
+  const { ids, neighbours } = loadAdjacency(graph, options);
+  const undirected = options.direction === 'both';
+  const state = new Uint8Array(ids.length); // 0 unvisited, 1 on the current path, 2 done
+  const parent = new Int32Array(ids.length).fill(-1);
+
+  for (let start = 0; start < ids.length; start++) {
+    if (state[start]) continue;
+    const frames: { node: number; next: number; skippedParent: boolean }[] = [{ node: start, next: 0, skippedParent: false }];
+    state[start] = 1;
+
+    while (frames.length > 0) {
+      const frame = frames[frames.length - 1]!;
+      const edges = neighbours[frame.node]!;
+      if (frame.next >= edges.length) {
+        state[frame.node] = 2;
+        frames.pop();
+        continue;
+      }
+
+      const next = edges[frame.next++]!;
+      // The edge we arrived by is not a cycle when direction is ignored
+      if (undirected && next === parent[frame.node] && !frame.skippedParent) {
+        frame.skippedParent = true;
+        continue;
+      }
+      if (state[next] === 1) {
+        const cycle = [ids[frame.node]!];
+        for (let node = frame.node; node !== next; ) {
+          node = parent[node]!;
+          cycle.unshift(ids[node]!);
+        }
+        return cycle;
+      }
+      if (state[next] === 0) {
+        state[next] = 1;
+        parent[next] = frame.node;
+        frames.push({ node: next, next: 0, skippedParent: false });
+      }
+    }
+  }
+  return null;
+}
+
+/** Node ids ordered so every edge points forward (Kahn's algorithm); throws ValidationError on cycles */
+export function topologicalSort(graph: GraphDatabase<any, any>, options: AlgorithmOptions = {}): string[] {
+  if (options.direction === 'both') {
+    throw new ValidationError("Topological sort needs a direction other than 'both'");
+  }
+  const { ids, neighbours } = loadAdjacency(graph, options);
+  const incoming = new Int32Array(ids.length);
+  for (const edges of neighbours) {
+    for (const target of edges) incoming[target] = incoming[target]! + 1;
+  }
+
+  const queue: number[] = [];
+  ids.forEach((_, node) => {
+    if (incoming[node] === 0) queue.push(node);
+  });
+  for (let head = 0; head < queue.length; head++) {
+    for (const target of neighbours[queue[head]!]!) {
+      incoming[target] = incoming[target]! - 1;
+      if (incoming[target] === 0) queue.push(target);
+    }
+  }
+
+  if (queue.length < ids.length) {
+    throw new ValidationError('Graph contains a cycle');
+  }
+  const sorted = queue.map(node => ids[node]!);
+  writeResults(graph, options.writeTo, new Map(sorted.map((id, position) => [id, position])));
+  return sorted;
+}
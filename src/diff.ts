@@ -0,0 +1,58 @@
+// Differences between two graphs, matched by node and edge id
+import type { EdgeData, GraphDatabase, StoredNode } from "./index";
+
+export interface GraphChange<T> {
+  id: string;
+  before: T;
+  after: T;
+}
+
+/** What changed going from graph `a` to graph `b` */
+export interface GraphDiff<N extends object = object, E extends object = object> {
+  nodes: { added: N[]; removed: N[]; changed: GraphChange<N>[] };
+  edges: { added: EdgeData<E>[]; removed: EdgeData<E>[]; changed: GraphChange<EdgeData<E>>[] };
+}
+
+// JSON with sorted object keys, so equal values compare equal as strings
+function canonical(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonical).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${canonical((value as any)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+// `a` is held in memory by id while `b` is streamed past it
+function compare<T>(a: Iterable<T>, b: Iterable<T>, idOf: (item: T) => string): { added: T[]; removed: T[]; changed: GraphChange<T>[] } {
+  const before = new Map<string, { item: T; key: string }>();
+  for (const item of a) {
+    before.set(idOf(item), { item, key: canonical(item) });
+  }
+
+  const added: T[] = [];
+  const changed: GraphChange<T>[] = [];
+  for (const item of b) {
+    const id = idOf(item);
+    const previous = before.get(id);
+    if (!previous) {
+      added.push(item);
+    } else {
+      if (previous.key !== canonical(item)) {
+        changed.push({ id, before: previous.item, after: item });
+      }
+      before.delete(id);
+    }
+  }
+  return { added, removed: [...before.values()].map(entry => entry.item), changed };
+}
+
+/** Nodes are compared by body and edges by endpoints, type and properties. Labels are not compared. */
+export function diffGraphs<N extends object, E extends object>(a: GraphDatabase<N, E>, b: GraphDatabase<N, E>): GraphDiff<StoredNode<N>, E> {
+  return {
+    nodes: compare(a.iterateNodes(), b.iterateNodes(), node => String((node as any).id)),
+    edges: compare(a.iterateEdges(), b.iterateEdges(), edge => edge.id)
+  };
+}
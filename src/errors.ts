@@ -0,0 +1,32 @@
+// Error classes
+export class ConstraintError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConstraintError';
+  }
+}
+
+export class ValidationError extends Error {
+  /** Location of the offending field, e.g. `$.address.city`, when known */
+  path?: string;
+  
+  constructor(message: string, path?: string) {
+    super(message);
+    this.name = 'ValidationError';
+    this.path = path;
+  }
+}
+
+export class NotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class DatabaseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DatabaseError';
+  }
+}
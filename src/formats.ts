@@ -0,0 +1,525 @@
+// Serializers and parsers for GraphML, GEXF and the JSON Graph Format
+import { ValidationError } from "./errors";
+
+export type GraphFormat = 'graphml' | 'gexf' | 'json-graph';
+
+/** Format-neutral view of a graph, as exported from or imported into the database */
+export interface GraphSnapshot {
+  nodes: { id: string | number; body: object; labels?: string[] }[];
+  edges: { id?: string; source: string | number; target: string | number; properties: object; type?: string }[];
+}
+
+export function serializeGraph(snapshot: GraphSnapshot, format: GraphFormat): string {
+  switch (format) {
+    case 'graphml':
+      return toGraphML(snapshot);
+    case 'gexf':
+      return toGEXF(snapshot);
+    case 'json-graph':
+      return toJSONGraph(snapshot);
+    default:
+      throw new ValidationError(`Unsupported format: ${format}`);
+  }
+}
+
+export function parseGraph(data: string, format: GraphFormat): GraphSnapshot {
+  switch (format) {
+    case 'graphml':
+      return fromGraphML(data);
+    case 'gexf':
+      return fromGEXF(data);
+    case 'json-graph':
+      return fromJSONGraph(data);
+    default:
+      throw new ValidationError(`Unsupported format: ${format}`);
+  }
+}
+
+// Attribute typing shared by the XML formats. Values that are not scalars, or keys whose
+// values mix types, are stored as JSON text and flagged so they round-trip exactly.
+type ValueKind = 'boolean' | 'long' | 'double' | 'string' | 'json';
+
+interface AttributeDef {
+  id: string;
+  name: string;
+  kind: ValueKind;
+}
+
+function kindOf(value: unknown): ValueKind {
+  if (typeof value === 'boolean') return 'boolean';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'long' : 'double';
+  if (typeof value === 'string') return 'string';
+  return 'json';
+}
+
+function mergeKinds(a: ValueKind, b: ValueKind): ValueKind {
+  if (a === b) return a;
+  if ((a === 'long' && b === 'double') || (a === 'double' && b === 'long')) return 'double';
+  return 'json';
+}
+
+function collectAttributes(records: object[], prefix: string): AttributeDef[] {
+  const kinds = new Map<string, ValueKind>();
+  for (const record of records) {
+    for (const [name, value] of Object.entries(record)) {
+      const kind = kindOf(value);
+      const previous = kinds.get(name);
+      kinds.set(name, previous ? mergeKinds(previous, kind) : kind);
+    }
+  }
+  return [...kinds].map(([name, kind], i) => ({ id: `${prefix}${i}`, name, kind }));
+}
+
+function encodeValue(value: unknown, kind: ValueKind): string {
+  return kind === 'json' ? JSON.stringify(value) : String(value);
+}
+
+function decodeValue(text: string, kind: ValueKind): unknown {
+  switch (kind) {
+    case 'boolean':
+      return text.trim() === 'true' || text.trim() === '1';
+    case 'long':
+    case 'double':
+      return Number(text);
+    case 'json':
+      try {
+        return JSON.parse(text);
+      } catch {
+        throw new ValidationError(`Invalid JSON attribute value: ${text}`);
+      }
+    default:
+      return text;
+  }
+}
+
+// Map an XML attribute type from a file we did not write onto the closest kind
+function kindFromXmlType(type: string | undefined): ValueKind {
+  switch ((type || 'string').toLowerCase()) {
+    case 'boolean':
+      return 'boolean';
+    case 'int':
+    case 'integer':
+    case 'long':
+      return 'long';
+    case 'float':
+    case 'double':
+      return 'double';
+    default:
+      return 'string';
+  }
+}
+
+function xmlType(kind: ValueKind): string {
+  return kind === 'json' ? 'string' : kind;
+}
+
+// Minimal XML support: enough for GraphML and GEXF documents, not a general parser
+interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|lt|gt|amp|quot|apos);/g, (_, entity: string) => {
+    switch (entity) {
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'amp': return '&';
+      case 'quot': return '"';
+      case 'apos': return "'";
+    }
+    const code = entity[1] === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+    return String.fromCodePoint(code);
+  });
+}
+
+function parseXml(xml: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '' };
+  const stack: XmlElement[] = [root];
+  let i = 0;
+
+  const fail = (message: string): never => {
+    throw new ValidationError(`Invalid XML at offset ${i}: ${message}`);
+  };
+
+  while (i < xml.length) {
+    const current = stack[stack.length - 1]!;
+    if (xml[i] !== '<') {
+      const next = xml.indexOf('<', i);
+      const end = next === -1 ? xml.length : next;
+      current.text += decodeEntities(xml.slice(i, end));
+      i = end;
+    } else if (xml.startsWith('<!--', i)) {
+      const end = xml.indexOf('-->', i);
+      if (end === -1) fail('unterminated comment');
+      i = end + 3;
+    } else if (xml.startsWith('<![CDATA[', i)) {
+      const end = xml.indexOf(']]>', i);
+      if (end === -1) fail('unterminated CDATA section');
+      current.text += xml.slice(i + 9, end);
+      i = end + 3;
+    } else if (xml.startsWith('<?', i) || xml.startsWith('<!', i)) {
+      const end = xml.indexOf('>', i);
+      if (end === -1) fail('unterminated declaration');
+      i = end + 1;
+    } else if (xml.startsWith('</', i)) {
+      const end = xml.indexOf('>', i);
+      if (end === -1) fail('unterminated end tag');
+      const name = xml.slice(i + 2, end).trim();
+      if (stack.length === 1 || current.name !== name) fail(`unexpected </${name}>`);
+      stack.pop();
+      i = end + 1;
+    } else {
+      const tag = /^<([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/.exec(xml.slice(i));
+      if (!tag) fail('malformed start tag');
+      const element: XmlElement = { name: tag![1]!, attributes: {}, children: [], text: '' };
+      for (const attribute of tag![2]!.matchAll(/([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+        element.attributes[attribute[1]!] = decodeEntities(attribute[2] ?? attribute[3] ?? '');
+      }
+      current.children.push(element);
+      if (!tag![3]) {
+        stack.push(element);
+      }
+      i += tag![0].length;
+    }
+  }
+
+  if (stack.length !== 1) {
+    fail(`unclosed <${stack[stack.length - 1]!.name}>`);
+  }
+  const documentElement = root.children[0];
+  if (!documentElement) {
+    fail('no root element');
+  }
+  return documentElement!;
+}
+
+function localName(name: string): string {
+  const colon = name.indexOf(':');
+  return colon === -1 ? name : name.slice(colon + 1);
+}
+
+function childrenNamed(element: XmlElement, name: string): XmlElement[] {
+  return element.children.filter(child => localName(child.name) === name);
+}
+
+function childNamed(element: XmlElement, name: string): XmlElement | undefined {
+  return childrenNamed(element, name)[0];
+}
+
+function expectRoot(element: XmlElement, name: string): void {
+  if (localName(element.name) !== name) {
+    throw new ValidationError(`Expected <${name}> document, found <${element.name}>`);
+  }
+}
+
+// Node labels and edge types are written as attributes of the XML elements: `labels`
+// holds a JSON array, and the edge type is `type` in GraphML and GEXF's own `kind`
+function labelsAttribute(labels: string[] | undefined): string {
+  return labels && labels.length > 0 ? ` labels="${escapeXml(JSON.stringify(labels))}"` : '';
+}
+
+function readLabels(text: string | undefined): string[] | undefined {
+  if (text === undefined) return undefined;
+  let labels: unknown;
+  try {
+    labels = JSON.parse(text);
+  } catch {
+    throw new ValidationError(`Invalid node labels: ${text}`);
+  }
+  if (!Array.isArray(labels) || !labels.every(label => typeof label === 'string')) {
+    throw new ValidationError(`Invalid node labels: ${text}`);
+  }
+  return labels;
+}
+
+// Prefer the body's own id (which keeps numeric ids numeric) over the element id
+function restoreNodeId(body: Record<string, unknown>, elementId: string | undefined): string | number {
+  const id = body.id ?? elementId;
+  if (id === undefined || id === '') {
+    throw new ValidationError('Node without an id');
+  }
+  return id as string | number;
+}
+
+// GraphML
+function toGraphML(snapshot: GraphSnapshot): string {
+  const nodeKeys = collectAttributes(snapshot.nodes.map(node => node.body), 'n');
+  const edgeKeys = collectAttributes(snapshot.edges.map(edge => edge.properties), 'e');
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">'
+  ];
+
+  for (const [domain, keys] of [['node', nodeKeys], ['edge', edgeKeys]] as const) {
+    for (const key of keys) {
+      const open = `  <key id="${key.id}" for="${domain}" attr.name="${escapeXml(key.name)}" attr.type="${xmlType(key.kind)}"`;
+      lines.push(key.kind === 'json' ? `${open}><desc>json</desc></key>` : `${open}/>`);
+    }
+  }
+
+  lines.push('  <graph id="G" edgedefault="directed">');
+  const data = (keys: AttributeDef[], record: object, indent: string) => {
+    const values = record as Record<string, unknown>;
+    return keys
+      .filter(key => key.name in values)
+      .map(key => `${indent}<data key="${key.id}">${escapeXml(encodeValue(values[key.name], key.kind))}</data>`);
+  };
+  for (const node of snapshot.nodes) {
+    lines.push(`    <node id="${escapeXml(String(node.id))}"${labelsAttribute(node.labels)}>`, ...data(nodeKeys, node.body, '      '), '    </node>');
+  }
+  for (const edge of snapshot.edges) {
+    const id = edge.id !== undefined ? ` id="${escapeXml(edge.id)}"` : '';
+    const type = edge.type !== undefined ? ` type="${escapeXml(edge.type)}"` : '';
+    lines.push(
+      `    <edge${id} source="${escapeXml(String(edge.source))}" target="${escapeXml(String(edge.target))}"${type}>`,
+      ...data(edgeKeys, edge.properties, '      '),
+      '    </edge>'
+    );
+  }
+  lines.push('  </graph>', '</graphml>');
+  return lines.join('\n') + '\n';
+}
+
+function fromGraphML(xml: string): GraphSnapshot {
+  const root = parseXml(xml);
+  expectRoot(root, 'graphml');
+  const graph = childNamed(root, 'graph');
+  if (!graph) {
+    throw new ValidationError('GraphML document has no <graph>');
+  }
+
+  const keys = new Map<string, { name: string; kind: ValueKind }>();
+  for (const key of childrenNamed(root, 'key')) {
+    const desc = childNamed(key, 'desc');
+    keys.set(key.attributes.id!, {
+      name: key.attributes['attr.name'] || key.attributes.id!,
+      kind: desc?.text.trim() === 'json' ? 'json' : kindFromXmlType(key.attributes['attr.type'])
+    });
+  }
+
+  const readData = (element: XmlElement) => {
+    const record: Record<string, unknown> = {};
+    for (const data of childrenNamed(element, 'data')) {
+      const key = keys.get(data.attributes.key!) || { name: data.attributes.key!, kind: 'string' as const };
+      record[key.name] = decodeValue(data.text, key.kind);
+    }
+    return record;
+  };
+
+  // Endpoints are element ids; map them back to (possibly numeric) node ids
+  const nodeIds = new Map<string, string | number>();
+  const nodes = childrenNamed(graph, 'node').map(element => {
+    const body = readData(element);
+    const id = restoreNodeId(body, element.attributes.id);
+    nodeIds.set(element.attributes.id ?? String(id), id);
+    return { id, body: { ...body, id }, labels: readLabels(element.attributes.labels) };
+  });
+  const edges = childrenNamed(graph, 'edge').map(element => ({
+    id: element.attributes.id,
+    source: nodeIds.get(element.attributes.source!) ?? element.attributes.source!,
+    target: nodeIds.get(element.attributes.target!) ?? element.attributes.target!,
+    properties: readData(element),
+    type: element.attributes.type
+  }));
+
+  return { nodes, edges };
+}
+
+// GEXF
+function toGEXF(snapshot: GraphSnapshot): string {
+  const nodeAttributes = collectAttributes(snapshot.nodes.map(node => node.body), '');
+  const edgeAttributes = collectAttributes(snapshot.edges.map(edge => edge.properties), '');
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gexf xmlns="http://gexf.net/1.3" version="1.3">',
+    '  <graph defaultedgetype="directed" mode="static">'
+  ];
+
+  for (const [domain, attributes] of [['node', nodeAttributes], ['edge', edgeAttributes]] as const) {
+    if (attributes.length === 0) continue;
+    lines.push(`    <attributes class="${domain}">`);
+    for (const attribute of attributes) {
+      const open = `      <attribute id="${attribute.id}" title="${escapeXml(attribute.name)}" type="${xmlType(attribute.kind)}"`;
+      lines.push(attribute.kind === 'json' ? `${open}><options>json</options></attribute>` : `${open}/>`);
+    }
+    lines.push('    </attributes>');
+  }
+
+  const attvalues = (attributes: AttributeDef[], record: object, indent: string) => {
+    const values = record as Record<string, unknown>;
+    const present = attributes.filter(attribute => attribute.name in values);
+    if (present.length === 0) return [];
+    return [
+      `${indent}<attvalues>`,
+      ...present.map(attribute => `${indent}  <attvalue for="${attribute.id}" value="${escapeXml(encodeValue(values[attribute.name], attribute.kind))}"/>`),
+      `${indent}</attvalues>`
+    ];
+  };
+
+  lines.push('    <nodes>');
+  for (const node of snapshot.nodes) {
+    const body = node.body as Record<string, unknown>;
+    const label = String(body.label ?? body.name ?? body.title ?? node.id);
+    lines.push(
+      `      <node id="${escapeXml(String(node.id))}" label="${escapeXml(label)}"${labelsAttribute(node.labels)}>`,
+      ...attvalues(nodeAttributes, node.body, '        '),
+      '      </node>'
+    );
+  }
+  lines.push('    </nodes>', '    <edges>');
+  snapshot.edges.forEach((edge, i) => {
+    const kind = edge.type !== undefined ? ` kind="${escapeXml(edge.type)}"` : '';
+    lines.push(
+      `      <edge id="${escapeXml(edge.id ?? String(i))}" source="${escapeXml(String(edge.source))}" target="${escapeXml(String(edge.target))}"${kind}>`,
+      ...attvalues(edgeAttributes, edge.properties, '        '),
+      '      </edge>'
+    );
+  });
+  lines.push('    </edges>', '  </graph>', '</gexf>');
+  return lines.join('\n') + '\n';
+}
+
+function fromGEXF(xml: string): GraphSnapshot {
+  const root = parseXml(xml);
+  expectRoot(root, 'gexf');
+  const graph = childNamed(root, 'graph');
+  if (!graph) {
+    throw new ValidationError('GEXF document has no <graph>');
+  }
+
+  const attributes: Record<'node' | 'edge', Map<string, { name: string; kind: ValueKind }>> = {
+    node: new Map(),
+    edge: new Map()
+  };
+  for (const group of childrenNamed(graph, 'attributes')) {
+    const domain = group.attributes.class === 'edge' ? 'edge' : 'node';
+    for (const attribute of childrenNamed(group, 'attribute')) {
+      const options = childNamed(attribute, 'options');
+      attributes[domain].set(attribute.attributes.id!, {
+        name: attribute.attributes.title || attribute.attributes.id!,
+        kind: options?.text.trim() === 'json' ? 'json' : kindFromXmlType(attribute.attributes.type)
+      });
+    }
+  }
+
+  const readValues = (element: XmlElement, domain: 'node' | 'edge') => {
+    const record: Record<string, unknown> = {};
+    const container = childNamed(element, 'attvalues');
+    for (const value of container ? childrenNamed(container, 'attvalue') : []) {
+      const id = value.attributes.for ?? value.attributes.id!;
+      const attribute = attributes[domain].get(id) || { name: id, kind: 'string' as const };
+      record[attribute.name] = decodeValue(value.attributes.value ?? '', attribute.kind);
+    }
+    return record;
+  };
+
+  const nodeIds = new Map<string, string | number>();
+  const nodesElement = childNamed(graph, 'nodes');
+  const nodes = (nodesElement ? childrenNamed(nodesElement, 'node') : []).map(element => {
+    const body = readValues(element, 'node');
+    // Files from other tools often only carry the label
+    if (Object.keys(body).length === 0 && element.attributes.label !== undefined) {
+      body.label = element.attributes.label;
+    }
+    const id = restoreNodeId(body, element.attributes.id);
+    nodeIds.set(element.attributes.id ?? String(id), id);
+    return { id, body: { ...body, id }, labels: readLabels(element.attributes.labels) };
+  });
+  const edgesElement = childNamed(graph, 'edges');
+  const edges = (edgesElement ? childrenNamed(edgesElement, 'edge') : []).map(element => ({
+    id: element.attributes.id,
+    source: nodeIds.get(element.attributes.source!) ?? element.attributes.source!,
+    target: nodeIds.get(element.attributes.target!) ?? element.attributes.target!,
+    properties: readValues(element, 'edge'),
+    type: element.attributes.kind
+  }));
+
+  return { nodes, edges };
+}
+
+// JSON Graph Format (https://jsongraphformat.info); writes v2, reads v1 and v2.
+// Node labels and edge types go in extra `labels` and `type` fields.
+function toJSONGraph(snapshot: GraphSnapshot): string {
+  const nodes: Record<string, object> = {};
+  for (const node of snapshot.nodes) {
+    const body = node.body as Record<string, unknown>;
+    const label = body.label ?? body.name ?? body.title;
+    nodes[String(node.id)] = {
+      ...(label !== undefined ? { label: String(label) } : {}),
+      ...(node.labels && node.labels.length > 0 ? { labels: node.labels } : {}),
+      metadata: node.body
+    };
+  }
+  const edges = snapshot.edges.map(edge => {
+    const relation = (edge.properties as Record<string, unknown>).type;
+    return {
+      ...(edge.id !== undefined ? { id: edge.id } : {}),
+      source: String(edge.source),
+      target: String(edge.target),
+      ...(typeof relation === 'string' ? { relation } : {}),
+      ...(edge.type !== undefined ? { type: edge.type } : {}),
+      metadata: edge.properties
+    };
+  });
+  return JSON.stringify({ graph: { directed: true, nodes, edges } }, null, 2) + '\n';
+}
+
+function fromJSONGraph(data: string): GraphSnapshot {
+  let document: any;
+  try {
+    document = JSON.parse(data);
+  } catch {
+    throw new ValidationError('Invalid JSON Graph document');
+  }
+  const graph = document?.graph ?? document?.graphs?.[0];
+  if (!graph || typeof graph !== 'object') {
+    throw new ValidationError('JSON Graph document has no graph');
+  }
+
+  // v2 keys nodes by id, v1 uses an array of nodes with an id field
+  const entries: [string, any][] = Array.isArray(graph.nodes)
+    ? graph.nodes.map((node: any) => [String(node.id), node])
+    : Object.entries(graph.nodes || {});
+
+  const nodeIds = new Map<string, string | number>();
+  const nodes = entries.map(([key, node]) => {
+    const body: Record<string, unknown> = { ...(node?.metadata || {}) };
+    if (node?.label !== undefined && body.label === undefined && Object.keys(body).length === 0) {
+      body.label = node.label;
+    }
+    const id = restoreNodeId(body, key);
+    nodeIds.set(key, id);
+    const labels = node?.labels;
+    if (labels !== undefined && (!Array.isArray(labels) || !labels.every((label: unknown) => typeof label === 'string'))) {
+      throw new ValidationError(`Invalid labels for node ${key}`);
+    }
+    return { id, body: { ...body, id }, labels };
+  });
+  const edges = (graph.edges || []).map((edge: any) => {
+    const properties: Record<string, unknown> = { ...(edge.metadata || {}) };
+    if (edge.relation !== undefined && properties.type === undefined) {
+      properties.type = edge.relation;
+    }
+    return {
+      id: edge.id === undefined ? undefined : String(edge.id),
+      source: nodeIds.get(String(edge.source)) ?? edge.source,
+      target: nodeIds.get(String(edge.target)) ?? edge.target,
+      properties,
+      type: edge.type === undefined ? undefined : String(edge.type)
+    };
+  });
+
+  return { nodes, edges };
+}
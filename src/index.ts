@@ -1,20 +1,84 @@
 import { Database } from "bun:sqlite";
+import { ConstraintError, DatabaseError, NotFoundError, ValidationError } from "./errors";
+import { checkSchema, type JSONSchema, type SchemaIssue } from "./schema";
+import { jsonPath, keyFromPath } from "./paths";
+import { compilePattern } from "./pattern";
+import { checkVector, fromBlob, score, toBlob, type VectorMetric } from "./vectors";
+import { diffGraphs } from "./diff";
+import { parseGraph, serializeGraph, type GraphFormat, type GraphSnapshot } from "./formats";
+import * as algorithms from "./algorithms";
+import { toDot, toMermaid, type RenderFormat, type RenderOptions } from "./render";
+import { inferFormat, readRecords, sourceStream, type LoadFormat, type LoadRecord } from "./loader";
+
+export { ConstraintError, DatabaseError, NotFoundError, ValidationError } from "./errors";
+export type { JSONSchema, JSONSchemaType, SchemaIssue } from "./schema";
+export type { GraphFormat } from "./formats";
+export type { LoadFormat } from "./loader";
+export { toDot, toMermaid } from "./render";
+export { compilePattern, type CompiledPattern } from "./pattern";
+export { algorithms };
+export type { AlgorithmOptions, CentralityOptions, PageRankOptions } from "./algorithms";
+export type { RenderFormat, RenderOptions } from "./render";
+export type { VectorMetric } from "./vectors";
+export { diffGraphs, type GraphChange, type GraphDiff } from "./diff";
 
 // Type definitions
-export interface NodeData {
+
+/**
+ * Maps a type label to the shape of bodies (or edge properties) with that label, e.g.
+ * `{ user: { name: string }; team: { size: number } }`.
+ */
+export type TypeMap = Record<string, object>;
+
+/** Discriminated union of the shapes in a TypeMap, keyed on `type`; plain `object` for an empty or open map */
+export type TypedBody<M extends TypeMap> = [keyof M] extends [never]
+  ? object
+  : string extends keyof M
+    ? object
+    : { [K in keyof M & string]: { type: K } & M[K] }[keyof M & string];
+
+/** A node body as stored, which always carries its id */
+export type StoredNode<N extends object = object> = object extends N
+  ? object
+  : N extends any ? N & { id: string | number } : never;
+
+/** A node body as written, where the id may come from the identifier argument instead */
+export type NodeInput<N extends object = object> = object extends N
+  ? Record<string, any>
+  : N extends any ? Omit<N, 'id'> & { id?: string | number } : never;
+
+type KeyPaths<T, Depth extends unknown[] = []> = Depth['length'] extends 4
+  ? never
+  : T extends object
+    ? {
+        [K in keyof T & string]: NonNullable<T[K]> extends readonly unknown[]
+          ? K
+          : NonNullable<T[K]> extends object
+            ? K | `${K}.${KeyPaths<NonNullable<T[K]>, [...Depth, unknown]>}`
+            : K;
+      }[keyof T & string]
+    : never;
+
+/** Dot-separated keys of a body type; any string for untyped graphs */
+export type BodyKey<N extends object = object> = object extends N ? string : KeyPaths<StoredNode<N>>;
+
+export interface NodeData<N extends object = object> {
   identifier: string | number;
-  body: object;
+  body: N;
 }
 
-export interface EdgeData {
+export interface EdgeData<E extends object = object> {
+  id: string;
   source: string | number;
   target: string | number;
-  properties: object;
+  properties: E;
+  /** Edge type, stored apart from the properties; absent when the edge has none */
+  type?: string;
 }
 
-export interface GraphData {
-  node?: NodeData;
-  edge?: EdgeData;
+export interface GraphData<N extends object = object, E extends object = object> {
+  node?: NodeData<N>;
+  edge?: EdgeData<E>;
   depth?: number;
 }
 
@@ -22,7 +86,28 @@ export interface SearchQuery {
   resultColumn?: 'id' | 'body';
   key?: string;
   tree?: boolean;
+  /** Raw SQL fragments joined into the WHERE clause; prefer `filters` or `query()` */
   searchClauses?: string[];
+  /** Typed conditions on body keys, compiled with escaped paths and bound values */
+  filters?: FilterClause[];
+  orderBy?: OrderClause[];
+  limit?: number;
+  offset?: number;
+  /** Keyset pagination: return rows ordered after the node with this id */
+  after?: string | number;
+  /** Labels the node must all carry */
+  labels?: string[];
+}
+
+export type FilterPredicate = '=' | '!=' | '<' | '<=' | '>' | '>=' | 'LIKE' | 'IN';
+
+export type FilterClause =
+  | { andOr?: 'AND' | 'OR' | 'NOT'; key: string; predicate: FilterPredicate; value: any }
+  | { andOr?: 'AND' | 'OR' | 'NOT'; group: FilterClause[] };
+
+export interface OrderClause {
+  key: string;
+  direction?: 'ASC' | 'DESC';
 }
 
 export interface WhereClause {
@@ -34,81 +119,480 @@ export interface WhereClause {
   key?: string;
 }
 
+export interface IndexOptions {
+  /** Table whose JSON column is indexed: node bodies (default) or edge properties */
+  target?: 'nodes' | 'edges';
+  unique?: boolean;
+}
+
+export interface IndexInfo {
+  name: string;
+  target: 'nodes' | 'edges';
+  key: string;
+  unique: boolean;
+}
+
+export interface ConstraintOptions {
+  /** 'unique' rejects duplicate values; 'required' rejects nodes missing the key (or null) */
+  kind: 'unique' | 'required';
+  /** Only apply to nodes whose body matches every key/value pair, e.g. { type: 'user' } */
+  where?: Record<string, string | number | boolean>;
+}
+
+export interface ConstraintInfo {
+  name: string;
+  kind: 'unique' | 'required';
+  key: string;
+  where: Record<string, string | number | boolean>;
+}
+
+/** Custom validator: return true/nothing when valid, otherwise false, a message or an issue */
+export type SchemaValidator = (data: any) => boolean | string | SchemaIssue | null | void;
+
+export interface SchemaOptions {
+  /** Body or property key holding the type a schema is registered for; defaults to 'type' */
+  typeKey?: string;
+}
+
+export interface NodeOptions {
+  labels?: string[];
+}
+
+export interface EdgeOptions {
+  type?: string;
+}
+
+export interface ConnectionOptions {
+  /** Only edges of one of these types */
+  types?: string[];
+}
+
+export interface LabelSummary {
+  /** Number of nodes carrying each label */
+  nodes: Record<string, number>;
+  /** Number of edges of each type */
+  edges: Record<string, number>;
+}
+
+export interface RemoveOptions {
+  /**
+   * What to do with edges attached to removed nodes:
+   * - 'cascade' (default) deletes them
+   * - 'restrict' throws ConstraintError if the node has any edges
+   * - 'orphan-check' deletes them, but throws ConstraintError if that would leave a
+   *   neighbouring node with no edges at all
+   */
+  policy?: 'cascade' | 'restrict' | 'orphan-check';
+  /** removeNodes only: throw NotFoundError (and remove nothing) if any id does not exist */
+  strict?: boolean;
+}
+
+export interface RemoveResult {
+  removed: (string | number)[];
+  missing: (string | number)[];
+}
+
+export interface TransactionOptions {
+  /** SQLite locking mode for the outermost transaction; nested calls use savepoints */
+  mode?: 'deferred' | 'immediate' | 'exclusive';
+}
+
+/** Label and style options apply to the 'dot' and 'mermaid' formats */
+export interface ExportOptions extends RenderOptions {
+  /** Only export these nodes and the edges between them */
+  nodeIds?: (string | number)[];
+}
+
+/**
+ * What to do when an imported node or edge id already exists:
+ * - 'error' throws ConstraintError
+ * - 'skip' keeps the existing record
+ * - 'replace' overwrites it with the imported one
+ * - 'merge' shallow-merges the imported body or properties into it
+ */
+export type ConflictPolicy = 'error' | 'skip' | 'replace' | 'merge';
+
+export interface ImportOptions {
+  /** Defaults to 'error', which imports nothing */
+  onConflict?: ConflictPolicy;
+}
+
+export interface MergeOptions extends ImportOptions {
+  /** Only merge these nodes and the edges between them */
+  nodeIds?: (string | number)[];
+}
+
+export interface SubgraphOptions extends ImportOptions {
+  /** Hops to follow from the seeds; unlimited by default */
+  depth?: number;
+  /** Which way edges are followed; defaults to 'outbound' */
+  direction?: 'inbound' | 'outbound' | 'both';
+  /** Graph or database file to write into; defaults to a new in-memory graph */
+  into?: GraphDatabase<any, any> | string;
+}
+
+export interface ImportCounts {
+  added: number;
+  updated: number;
+  skipped: number;
+}
+
+export interface ImportResult {
+  nodes: ImportCounts;
+  edges: ImportCounts;
+}
+
+export interface LoadOptions {
+  /** Defaults to 'csv' for paths ending in .csv, otherwise 'ndjson' */
+  format?: LoadFormat;
+  /** Rows written per transaction; defaults to 1000 */
+  chunkSize?: number;
+  /** Defaults to 'error', which rejects the duplicate row and carries on */
+  onConflict?: ConflictPolicy;
+}
+
+export interface LoadRejection {
+  /** Line in the input where the row starts */
+  line: number;
+  message: string;
+}
+
+export interface LoadReport extends ImportCounts {
+  rejected: LoadRejection[];
+}
+
+export interface EdgeFilter {
+  source?: string | number;
+  target?: string | number;
+  /** Edges with this node at either end */
+  node?: string | number;
+  /** Property values the edge must have, keyed by dot-separated path */
+  where?: Record<string, string | number | boolean>;
+  type?: string;
+}
+
+export type ChangeType = 'nodeAdded' | 'nodeUpdated' | 'nodeRemoved' | 'edgeAdded' | 'edgeUpdated' | 'edgeRemoved';
+
+export interface ChangeEvent<N extends object = object, E extends object = object> {
+  /** Position in the change log, increasing with every change */
+  seq: number;
+  type: ChangeType;
+  /** Node or edge id, as stored */
+  id: string;
+  /** Node body or edge after the change; before it for removals */
+  data: N | EdgeData<E>;
+  /** ISO 8601 time of the change */
+  timestamp: string;
+}
+
+export interface ListenerOptions<N extends object = object, E extends object = object> {
+  /**
+   * Called when the handler throws. The write has already committed either way; without
+   * this the error is rethrown in a microtask once the remaining handlers have run.
+   */
+  onError?: (error: unknown, event: ChangeEvent<N, E>) => void;
+}
+
+export interface NodeVersion<N extends object = object> {
+  version: number;
+  /** Body from this version on; null when the version records the node's removal */
+  body: N | null;
+  /** ISO 8601 time this version was written */
+  timestamp: string;
+}
+
+export interface EdgeVersion<E extends object = object> {
+  version: number;
+  /** Edge from this version on; null when the version records its removal */
+  edge: EdgeData<E> | null;
+  timestamp: string;
+}
+
+export interface TextSearchOptions<N extends object = object> {
+  /** Only match in these indexed fields; defaults to all of them */
+  fields?: string[];
+  limit?: number;
+  offset?: number;
+  /** Key/value filters the matching nodes must also pass */
+  where?: SearchQuery | NodeQuery<N>;
+  /** Bindings for `where.searchClauses`, as for findNodes */
+  bindings?: any[];
+  /** Markers around matched terms in snippets and highlights; defaults to ['<b>', '</b>'] */
+  highlight?: [string, string];
+  /** Maximum tokens per snippet; defaults to 16 */
+  snippetLength?: number;
+}
+
+export interface TextSearchResult<N extends object = object> {
+  node: N;
+  /** BM25 relevance; higher is better */
+  score: number;
+  /** Best-matching fragment across the searched fields */
+  snippet: string;
+  /** Full text of each searched field that has a value, with matches marked */
+  highlights: Record<string, string>;
+}
+
+export interface NearestOptions<N extends object = object> {
+  /** Number of nodes to return; defaults to 10 */
+  k?: number;
+  /** Defaults to 'cosine' */
+  metric?: VectorMetric;
+  /** Only consider nodes matching this search, as for findNodes */
+  filter?: SearchQuery | NodeQuery<N>;
+  /** Bindings for `filter.searchClauses` */
+  bindings?: any[];
+}
+
+export interface NearestNode<N extends object = object> {
+  node: N;
+  /** Similarity for 'cosine' and 'dot', distance for 'l2'; results come closest first */
+  score: number;
+}
+
+export interface NearestExpansion<N extends object = object, E extends object = object> {
+  hits: NearestNode<N>[];
+  /** Traversals from every hit, merged; each node and edge appears once */
+  context: GraphData<N, E>[];
+}
+
 export interface TraversalConfig {
   withBodies?: boolean;
   inbound?: boolean;
   outbound?: boolean;
+  /** Maximum number of hops from the source node; also populates GraphData.depth */
+  maxDepth?: number;
+  /** Only follow edges of these types */
+  edgeTypes?: string[];
+  /** Conditions on edge properties; edges that fail them are not followed */
+  edgeFilters?: FilterClause[] | NodeQuery<any>;
+  /** Conditions on node bodies; nodes that fail them are not visited or walked through. The start node always is. */
+  nodeFilters?: FilterClause[] | NodeQuery<any>;
+  /** Maximum number of rows (nodes, and edges withBodies) to return */
+  limit?: number;
+  /**
+   * Walk breadth- or depth-first and return rows in visit order, each node once. Without
+   * it the walk runs as a single query and rows come in no particular order.
+   */
+  order?: 'bfs' | 'dfs';
+}
+
+export interface PathConfig {
+  /** Which way edges may be followed; defaults to 'outbound' */
+  direction?: 'inbound' | 'outbound' | 'both';
+  /** Maximum number of hops a path may contain */
   maxDepth?: number;
+  /** Edge property (dot-separated) holding a numeric cost; edges without it cost 1 */
+  weight?: string;
+}
+
+export interface PathData<N extends object = object, E extends object = object> {
+  nodes: NodeData<N>[];
+  edges: EdgeData<E>[];
+  cost: number;
 }
 
-export interface GraphDatabase {
+export interface GraphDatabase<N extends object = object, E extends object = object> {
   // Node operations
-  addNode(data: object, identifier?: string | number): void;
-  addNodes(nodes: object[], identifiers?: (string | number)[]): void;
-  findNode(identifier: string | number): object | null;
-  updateNodeBody(identifier: string | number, data: object): void;
-  upsertNode(identifier: string | number, data: object): void;
-  removeNode(identifier: string | number): void;
-  removeNodes(identifiers: (string | number)[]): void;
+  addNode(data: NodeInput<N>, identifier?: string | number, options?: NodeOptions): void;
+  addNodes(nodes: NodeInput<N>[], identifiers?: (string | number)[]): void;
+  findNode(identifier: string | number): StoredNode<N> | null;
+  updateNodeBody(identifier: string | number, data: NodeInput<N>): void;
+  upsertNode(identifier: string | number, data: Partial<NodeInput<N>>): void;
+  removeNode(identifier: string | number, options?: RemoveOptions): void;
+  removeNodes(identifiers: (string | number)[], options?: RemoveOptions): RemoveResult;
+
+  // Transactions
+  transaction<T>(fn: (tx: GraphDatabase<N, E>) => T, options?: TransactionOptions): T;
 
   // Edge operations
-  connectNodes(sourceId: string | number, targetId: string | number): void;
-  connectNodesWithProperties(sourceId: string | number, targetId: string | number, properties: object): void;
-  connections(identifier: string | number): EdgeData[];
-  connectionsIn(identifier: string | number): EdgeData[];
-  connectionsOut(identifier: string | number): EdgeData[];
-  bulkConnectNodes(sources: (string | number)[], targets: (string | number)[]): void;
-  bulkConnectNodesWithProperties(sources: (string | number)[], targets: (string | number)[], properties: object[]): void;
+  connectNodes(sourceId: string | number, targetId: string | number, identifier?: string | number, options?: EdgeOptions): string;
+  connectNodesWithProperties(sourceId: string | number, targetId: string | number, properties: E, identifier?: string | number, options?: EdgeOptions): string;
+  findEdge(identifier: string | number): EdgeData<E> | null;
+  updateEdge(identifier: string | number, properties: E): void;
+  removeEdge(identifier: string | number): void;
+  connections(identifier: string | number, options?: ConnectionOptions): EdgeData<E>[];
+  connectionsIn(identifier: string | number, options?: ConnectionOptions): EdgeData<E>[];
+  connectionsOut(identifier: string | number, options?: ConnectionOptions): EdgeData<E>[];
+  setEdgeType(identifier: string | number, type: string | null): void;
+  bulkConnectNodes(sources: (string | number)[], targets: (string | number)[], identifiers?: (string | number)[]): string[];
+  bulkConnectNodesWithProperties(sources: (string | number)[], targets: (string | number)[], properties: E[], identifiers?: (string | number)[]): string[];
+  updateEdgeProperties(sourceId: string | number, targetId: string | number, properties: E): void;
+  bulkUpdateEdgeProperties(sources: (string | number)[], targets: (string | number)[], properties: E[]): void;
+  disconnectNodes(sourceId: string | number, targetId: string | number, properties?: E): void;
+  bulkDisconnectNodes(sources: (string | number)[], targets: (string | number)[]): void;
+  removeIncomingEdges(identifier: string | number): void;
+  removeOutgoingEdges(identifier: string | number): void;
+  iterateEdges(filter?: EdgeFilter): Generator<EdgeData<E>>;
+  
+  // Labels
+  nodeLabels(identifier: string | number): string[];
+  addLabels(identifier: string | number, labels: string[]): void;
+  removeLabels(identifier: string | number, labels: string[]): void;
+  labels(): LabelSummary;
 
-  // Search and traversal
-  findNodes(query: SearchQuery, bindings?: any[]): object[];
-  traverse(sourceId: string | number, config: TraversalConfig): GraphData[];
-}
+  // Indexes
+  createIndex(key: string, options?: IndexOptions): string;
+  dropIndex(key: string, options?: IndexOptions): void;
+  listIndexes(): IndexInfo[];
 
-// Error classes
-export class ConstraintError extends Error {
-  constructor(message: string) {
-    super(message);
-    this.name = 'ConstraintError';
-  }
-}
+  // Constraints
+  createConstraint(key: string, options: ConstraintOptions): string;
+  dropConstraint(key: string, options: ConstraintOptions): void;
+  listConstraints(): ConstraintInfo[];
 
-export class ValidationError extends Error {
-  constructor(message: string) {
-    super(message);
-    this.name = 'ValidationError';
-  }
-}
+  // Schemas
+  registerNodeSchema(type: string, schema: JSONSchema | SchemaValidator, options?: SchemaOptions): void;
+  registerEdgeSchema(type: string, schema: JSONSchema | SchemaValidator, options?: SchemaOptions): void;
+  unregisterNodeSchema(type: string, options?: SchemaOptions): void;
+  unregisterEdgeSchema(type: string, options?: SchemaOptions): void;
 
-export class NotFoundError extends Error {
-  constructor(message: string) {
-    super(message);
-    this.name = 'NotFoundError';
-  }
-}
+  // Import and export
+  exportGraph(format: GraphFormat | RenderFormat, options?: ExportOptions): string;
+  importGraph(data: string, format: GraphFormat, options?: ImportOptions): ImportResult;
+  loadNodes(source: ReadableStream<Uint8Array> | string, options?: LoadOptions): Promise<LoadReport>;
+  loadEdges(source: ReadableStream<Uint8Array> | string, options?: LoadOptions): Promise<LoadReport>;
+  mergeGraph(other: GraphDatabase<any, any>, options?: MergeOptions): ImportResult;
+  extractSubgraph(seedIds: (string | number)[], options?: SubgraphOptions): GraphDatabase<N, E>;
 
-export class DatabaseError extends Error {
-  constructor(message: string) {
-    super(message);
-    this.name = 'DatabaseError';
-  }
+  // Change events
+  enableChangeLog(): void;
+  disableChangeLog(): void;
+  on(type: ChangeType, handler: (event: ChangeEvent<StoredNode<N>, E>) => void, options?: ListenerOptions<StoredNode<N>, E>): () => void;
+  off(type: ChangeType, handler: (event: ChangeEvent<StoredNode<N>, E>) => void): void;
+  changesSince(seq: number, limit?: number): ChangeEvent<StoredNode<N>, E>[];
+  pruneChanges(throughSeq: number): number;
+
+  // History
+  enableHistory(): void;
+  disableHistory(): void;
+  nodeHistory(identifier: string | number): NodeVersion<StoredNode<N>>[];
+  edgeHistory(identifier: string | number): EdgeVersion<E>[];
+  revertNode(identifier: string | number, version: number): void;
+  asOf(timestamp: Date | string | number): GraphView<N, E>;
+  
+  // Full-text search
+  enableTextSearch(fields: BodyKey<N>[]): void;
+  disableTextSearch(): void;
+  textSearchFields(): string[];
+  searchText(query: string, options?: TextSearchOptions<N>): TextSearchResult<StoredNode<N>>[];
+  
+  // Embeddings
+  setNodeEmbedding(identifier: string | number, vector: Float32Array | number[]): void;
+  getNodeEmbedding(identifier: string | number): Float32Array | null;
+  removeNodeEmbedding(identifier: string | number): void;
+  nearestNodes(vector: Float32Array | number[], options?: NearestOptions<N>): NearestNode<StoredNode<N>>[];
+  expandNearest(vector: Float32Array | number[], options?: NearestOptions<N> & { traversal?: TraversalConfig }): NearestExpansion<StoredNode<N>, E>;
+
+  // Search and traversal
+  findNodes(query: SearchQuery & { resultColumn: 'id' }, bindings?: any[]): { id: string }[];
+  findNodes(query: SearchQuery | NodeQuery<N>, bindings?: any[]): StoredNode<N>[];
+  iterateNodes(query: SearchQuery & { resultColumn: 'id' }, bindings?: any[]): Generator<{ id: string }>;
+  iterateNodes(query?: SearchQuery | NodeQuery<N>, bindings?: any[]): Generator<StoredNode<N>>;
+  countNodes(query?: SearchQuery | NodeQuery<N>, bindings?: any[]): number;
+  query(): NodeQuery<N>;
+  traverse(sourceId: string | number, config: TraversalConfig): GraphData<StoredNode<N>, E>[];
+  iterateTraversal(sourceId: string | number, config: TraversalConfig): Generator<GraphData<StoredNode<N>, E>>;
+  shortestPath(sourceId: string | number, targetId: string | number, config?: PathConfig): PathData<StoredNode<N>, E> | null;
+  allPaths(sourceId: string | number, targetId: string | number, config?: PathConfig): PathData<StoredNode<N>, E>[];
+  match(pattern: string, params?: Record<string, unknown>): Record<string, any>[];
 }
 
+/** The graph as it was at `timestamp`, reconstructed from history; see asOf */
+export type GraphView<N extends object = object, E extends object = object> = Pick<
+  GraphDatabase<N, E>,
+  'findNode' | 'findNodes' | 'countNodes' | 'connections' | 'connectionsIn' | 'connectionsOut' | 'traverse'
+> & { readonly timestamp: string };
+
 // Read SQL files
 const schemaSQL = await Bun.file(new URL('../src/sql/schema.sql', import.meta.url)).text();
+const changesSQL = await Bun.file(new URL('../src/sql/changes.sql', import.meta.url)).text();
+const changesSinceSQL = await Bun.file(new URL('../src/sql/changes-since.sql', import.meta.url)).text();
+const lastChangeSQL = await Bun.file(new URL('../src/sql/last-change.sql', import.meta.url)).text();
+const pruneChangesSQL = await Bun.file(new URL('../src/sql/prune-changes.sql', import.meta.url)).text();
+const triggerExistsSQL = await Bun.file(new URL('../src/sql/trigger-exists.sql', import.meta.url)).text();
+const historySQL = await Bun.file(new URL('../src/sql/history.sql', import.meta.url)).text();
+const nodeVersionsSQL = await Bun.file(new URL('../src/sql/node-versions.sql', import.meta.url)).text();
+const edgeVersionsSQL = await Bun.file(new URL('../src/sql/edge-versions.sql', import.meta.url)).text();
 const insertNodeSQL = await Bun.file(new URL('../src/sql/insert-node.sql', import.meta.url)).text();
 const updateNodeSQL = await Bun.file(new URL('../src/sql/update-node.sql', import.meta.url)).text();
 const deleteNodeSQL = await Bun.file(new URL('../src/sql/delete-node.sql', import.meta.url)).text();
+const nodeExistsSQL = await Bun.file(new URL('../src/sql/node-exists.sql', import.meta.url)).text();
+const countOtherEdgesSQL = await Bun.file(new URL('../src/sql/count-other-edges.sql', import.meta.url)).text();
+const exportNodesSQL = await Bun.file(new URL('../src/sql/export-nodes.sql', import.meta.url)).text();
+const exportEdgesSQL = await Bun.file(new URL('../src/sql/export-edges.sql', import.meta.url)).text();
 const insertEdgeSQL = await Bun.file(new URL('../src/sql/insert-edge.sql', import.meta.url)).text();
+const searchEdgeSQL = await Bun.file(new URL('../src/sql/search-edge.sql', import.meta.url)).text();
+const updateEdgeIdSQL = await Bun.file(new URL('../src/sql/update-edge-id.sql', import.meta.url)).text();
+const deleteEdgeIdSQL = await Bun.file(new URL('../src/sql/delete-edge-id.sql', import.meta.url)).text();
 const updateEdgeSQL = await Bun.file(new URL('../src/sql/update-edge.sql', import.meta.url)).text();
 const deleteEdgeSQL = await Bun.file(new URL('../src/sql/delete-edge.sql', import.meta.url)).text();
+const deleteEdgePropertiesSQL = await Bun.file(new URL('../src/sql/delete-edge-properties.sql', import.meta.url)).text();
 const deleteEdgesSQL = await Bun.file(new URL('../src/sql/delete-edges.sql', import.meta.url)).text();
+const deleteIncomingEdgesSQL = await Bun.file(new URL('../src/sql/delete-incoming-edges.sql', import.meta.url)).text();
+const deleteOutgoingEdgesSQL = await Bun.file(new URL('../src/sql/delete-outgoing-edges.sql', import.meta.url)).text();
 const searchEdgesSQL = await Bun.file(new URL('../src/sql/search-edges.sql', import.meta.url)).text();
 const searchEdgesInboundSQL = await Bun.file(new URL('../src/sql/search-edges-inbound.sql', import.meta.url)).text();
 const searchEdgesOutboundSQL = await Bun.file(new URL('../src/sql/search-edges-outbound.sql', import.meta.url)).text();
+const listIndexesSQL = await Bun.file(new URL('../src/sql/list-indexes.sql', import.meta.url)).text();
+const insertConstraintSQL = await Bun.file(new URL('../src/sql/insert-constraint.sql', import.meta.url)).text();
+const deleteConstraintSQL = await Bun.file(new URL('../src/sql/delete-constraint.sql', import.meta.url)).text();
+const listConstraintsSQL = await Bun.file(new URL('../src/sql/list-constraints.sql', import.meta.url)).text();
+const dropTextSearchSQL = await Bun.file(new URL('../src/sql/drop-text-search.sql', import.meta.url)).text();
+const textSearchFieldsSQL = await Bun.file(new URL('../src/sql/text-search-fields.sql', import.meta.url)).text();
+const otherEmbeddingSQL = await Bun.file(new URL('../src/sql/other-embedding.sql', import.meta.url)).text();
+const upsertEmbeddingSQL = await Bun.file(new URL('../src/sql/upsert-embedding.sql', import.meta.url)).text();
+const nodeEmbeddingSQL = await Bun.file(new URL('../src/sql/node-embedding.sql', import.meta.url)).text();
+const deleteEmbeddingSQL = await Bun.file(new URL('../src/sql/delete-embedding.sql', import.meta.url)).text();
+const updateEdgeTypeSQL = await Bun.file(new URL('../src/sql/update-edge-type.sql', import.meta.url)).text();
+const edgeTypesBetweenSQL = await Bun.file(new URL('../src/sql/edge-types-between.sql', import.meta.url)).text();
+const insertLabelSQL = await Bun.file(new URL('../src/sql/insert-label.sql', import.meta.url)).text();
+const deleteLabelSQL = await Bun.file(new URL('../src/sql/delete-label.sql', import.meta.url)).text();
+const nodeLabelsSQL = await Bun.file(new URL('../src/sql/node-labels.sql', import.meta.url)).text();
+const countLabelsSQL = await Bun.file(new URL('../src/sql/count-labels.sql', import.meta.url)).text();
+const countEdgeTypesSQL = await Bun.file(new URL('../src/sql/count-edge-types.sql', import.meta.url)).text();
 
 // Template functions for building dynamic SQL
-function buildWhereClause(clause: WhereClause): string {
+
+// Deterministic index name for a key; keys that do not survive slugging get a hash suffix
+function indexName(target: 'nodes' | 'edges', key: string): string {
+  const slug = key.replace(/[^A-Za-z0-9_]/g, '_');
+  const suffix = slug === key ? '' : '_' + Bun.hash(key).toString(16).slice(0, 8);
+  return `idx_${target}_${slug}${suffix}`;
+}
+
+function constraintName(key: string, options: ConstraintOptions): string {
+  const prefix = options.kind === 'unique' ? 'uq' : 'req';
+  const slug = key.replace(/[^A-Za-z0-9_]/g, '_');
+  const hash = Bun.hash(JSON.stringify([key, options.where || {}])).toString(16).slice(0, 8);
+  return `${prefix}_nodes_${slug}_${hash}`;
+}
+
+function sqlString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+function sqlLiteral(value: string | number | boolean): string {
+  if (typeof value === 'string') {
+    return sqlString(value);
+  }
+  if (typeof value === 'boolean') {
+    // json_extract returns JSON booleans as 1/0
+    return value ? '1' : '0';
+  }
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return String(value);
+  }
+  throw new ValidationError(`Unsupported literal: ${String(value)}`);
+}
+
+// SQL condition matching rows whose JSON column has every key/value pair in `where`
+function buildScopeClause(column: string, where: Record<string, string | number | boolean>): string {
+  const conditions = Object.entries(where).map(([key, value]) => `json_extract(${column}, ${jsonPath(key)}) = ${sqlLiteral(value)}`);
+  return conditions.length > 0 ? conditions.join(' AND ') : '1';
+}
+
+export function buildWhereClause(clause: WhereClause): string {
   let result = '';
   
   if (clause.andOr) {
@@ -118,10 +602,10 @@ function buildWhereClause(clause: WhereClause): string {
   if (clause.idLookup) {
     result += 'id = ?';
   } else if (clause.keyValue && clause.key) {
-    result += `json_extract(body, '$.${clause.key}') ${clause.predicate || '='} ?`;
+    result += `json_extract(body, ${jsonPath(clause.key)}) ${clause.predicate || '='} ?`;
   } else if (clause.tree) {
     if (clause.key) {
-      result += `(json_tree.key='${clause.key}' AND json_tree.value ${clause.predicate || '='} ?)`;
+      result += `(json_tree.key=${sqlString(clause.key)} AND json_tree.value ${clause.predicate || '='} ?)`;
     } else {
       result += `json_tree.value ${clause.predicate || '='} ?`;
     }
@@ -130,142 +614,1249 @@ function buildWhereClause(clause: WhereClause): string {
   return result;
 }
 
-function buildSearchQuery(query: SearchQuery): string {
+const filterPredicates: FilterPredicate[] = ['=', '!=', '<', '<=', '>', '>=', 'LIKE', 'IN'];
+
+// Compile typed filters to SQL, appending their values to `bindings` in placeholder order
+function buildFilterClause(filters: FilterClause[], bindings: any[], target: 'body' | 'properties' = 'body'): string {
+  return filters.map((filter, index) => {
+    let prefix = '';
+    if (index > 0) {
+      prefix = filter.andOr === 'OR' ? 'OR ' : filter.andOr === 'NOT' ? 'AND NOT ' : 'AND ';
+    } else if (filter.andOr === 'NOT') {
+      prefix = 'NOT ';
+    }
+    
+    if ('group' in filter) {
+      return `${prefix}(${buildFilterClause(filter.group, bindings, target)})`;
+    }
+    
+    if (!filterPredicates.includes(filter.predicate)) {
+      throw new ValidationError(`Unsupported predicate: ${filter.predicate}`);
+    }
+    
+    const column = `json_extract(${target}, ${jsonPath(filter.key)})`;
+    if (filter.predicate === 'IN') {
+      if (!Array.isArray(filter.value) || filter.value.length === 0) {
+        throw new ValidationError('IN requires a non-empty array of values');
+      }
+      bindings.push(...filter.value);
+      return `${prefix}${column} IN (${filter.value.map(() => '?').join(', ')})`;
+    }
+    if (filter.value === null && (filter.predicate === '=' || filter.predicate === '!=')) {
+      return `${prefix}${column} ${filter.predicate === '=' ? 'IS NULL' : 'IS NOT NULL'}`;
+    }
+    
+    bindings.push(filter.value);
+    return `${prefix}${column} ${filter.predicate} ?`;
+  }).join(' ');
+}
+
+// Conditions for the rows after a keyset cursor, as alternatives that together match each
+// such row once. SQLite sorts NULL first in ASC order and last in DESC, and missing keys are NULL.
+function keysetArms(sortKeys: { column: string; direction: string }[], cursorColumns: string[], uniform: boolean): string[][] {
+  // (k1 > c1) OR (k1 = c1 AND k2 > c2) OR ... with > flipped for DESC keys; ids are never NULL
+  const generic = sortKeys.map((key, i) => {
+    const equal = sortKeys.slice(0, i).map((previous, j) => `${previous.column} IS ${cursorColumns[j]}`);
+    const cursor = cursorColumns[i];
+    const after = i === sortKeys.length - 1
+      ? `${key.column} ${key.direction === 'ASC' ? '>' : '<'} ${cursor}`
+      : key.direction === 'ASC'
+        ? `(${key.column} > ${cursor} OR (${cursor} IS NULL AND ${key.column} IS NOT NULL))`
+        : `(${key.column} < ${cursor} OR (${key.column} IS NULL AND ${cursor} IS NOT NULL))`;
+    return `(${[...equal, after].join(' AND ')})`;
+  }).join(' OR ');
+  const keys = sortKeys.slice(0, -1);
+  if (!uniform || keys.length === 0) {
+    return [[generic]];
+  }
+  
+  // With no NULL in the cursor, a row value comparison bounded by the leading key is an index range
+  const ascending = keys[0]!.direction === 'ASC';
+  const known = keys.map((_, i) => `${cursorColumns[i]} IS NOT NULL`).join(' AND ');
+  const seek = [
+    known,
+    `${keys[0]!.column} ${ascending ? '>=' : '<='} ${cursorColumns[0]}`,
+    `(${sortKeys.map(key => key.column).join(', ')}) ${ascending ? '>' : '<'} (${cursorColumns.join(', ')})`
+  ];
+  const unknown = [`NOT (${known})`, generic];
+  if (ascending) {
+    return [seek, unknown];
+  }
+  // In DESC order a row missing a key sorts after the cursor, but fails the row value comparison
+  const missing = keys.map((key, i) => [
+    known,
+    ...keys.slice(0, i).map((previous, j) => `${previous.column} = ${cursorColumns[j]}`),
+    `${key.column} IS NULL`
+  ]);
+  return [seek, ...missing, unknown];
+}
+
+export function buildSearchQuery(query: SearchQuery, bindings: any[] = []): string {
   const resultColumn = query.resultColumn || 'body';
-  let sql = `SELECT ${resultColumn} FROM nodes`;
+  const orderBy = query.orderBy || [];
+  const select = `SELECT ${resultColumn === 'id' ? 'nodes.id' : resultColumn}`;
+  let tables = 'nodes';
   
   if (query.tree) {
     if (query.key) {
-      sql += `, json_tree(body, '$.${query.key}')`;
+      tables += `, json_tree(body, ${jsonPath(query.key)})`;
     } else {
-      sql += ', json_tree(body)';
+      tables += ', json_tree(body)';
     }
   }
   
+  const conditions: string[] = [];
   if (query.searchClauses && query.searchClauses.length > 0) {
-    sql += ' WHERE ' + query.searchClauses.join(' ');
+    conditions.push(query.searchClauses.join(' '));
+  }
+  if (query.filters && query.filters.length > 0) {
+    conditions.push(buildFilterClause(query.filters, bindings));
+  }
+  for (const label of query.labels || []) {
+    conditions.push('EXISTS (SELECT 1 FROM node_labels WHERE node_labels.id = nodes.id AND label = ?)');
+    bindings.push(label);
+  }
+  const where = (extra: string[]) => {
+    const all = [...conditions, ...extra];
+    return all.length > 0 ? ' WHERE ' + all.map(condition => all.length > 1 ? `(${condition})` : condition).join(' AND ') : '';
+  };
+  
+  // Sort keys, with the node id as a final tie-breaker so pages are stable. When every key
+  // sorts the same way the id does too, making the whole order one row value.
+  const sortKeys = orderBy.map(order => {
+    const direction = order.direction || 'ASC';
+    if (direction !== 'ASC' && direction !== 'DESC') {
+      throw new ValidationError(`Invalid sort direction: ${direction}`);
+    }
+    return { column: `json_extract(body, ${jsonPath(order.key)})`, direction };
+  });
+  const uniform = sortKeys.every(key => key.direction === sortKeys[0]!.direction);
+  if (sortKeys.length > 0 || query.after !== undefined) {
+    sortKeys.push({ column: 'nodes.id', direction: uniform ? sortKeys[0]?.direction ?? 'ASC' : 'ASC' });
+  }
+  const orderClause = (columns: string[]) =>
+    sortKeys.length > 0 ? ' ORDER BY ' + sortKeys.map((key, i) => `${columns[i]} ${key.direction}`).join(', ') : '';
+  
+  let sql: string;
+  if (query.after === undefined) {
+    sql = `${select} FROM ${tables}${where([])}${orderClause(sortKeys.map(key => key.column))}`;
+  } else {
+    // Single-row table exposing the cursor node's sort values as c0..cN and cid.
+    // Its placeholder precedes every WHERE placeholder, so its value goes first.
+    const columns = orderBy.map((order, i) => `json_extract(body, ${jsonPath(order.key)}) AS c${i}`);
+    const cursor = `(SELECT ${[...columns, 'id AS cid'].join(', ')} FROM nodes WHERE id = ?) AS cursor`;
+    const cursorColumns = sortKeys.map((_, i) => i === sortKeys.length - 1 ? 'cursor.cid' : `cursor.c${i}`);
+    const arms = keysetArms(sortKeys, cursorColumns, uniform);
+    const whereBindings = bindings.splice(0);
+    if (arms.length === 1) {
+      bindings.push(query.after, ...whereBindings);
+      sql = `${select} FROM ${tables}, ${cursor}${where(arms[0]!)}${orderClause(sortKeys.map(key => key.column))}`;
+    } else {
+      // One query per arm, merged in sort order. The cursor row is joined first, so the
+      // arms whose conditions on it fail end before reading any nodes.
+      const sortColumns = sortKeys.map((_, i) => `s${i}`);
+      sql = arms.map(arm => {
+        bindings.push(query.after, ...whereBindings);
+        const sorts = sortKeys.map((key, i) => `${key.column} AS ${sortColumns[i]}`).join(', ');
+        return `${select}, ${sorts} FROM ${cursor} CROSS JOIN ${tables}${where(arm)}`;
+      }).join(' UNION ALL ') + orderClause(sortColumns);
+    }
+  }
+  
+  if (query.limit !== undefined || query.offset !== undefined) {
+    for (const [name, value] of [['limit', query.limit], ['offset', query.offset]] as const) {
+      if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+        throw new ValidationError(`${name} must be a non-negative integer`);
+      }
+    }
+    sql += ' LIMIT ?';
+    bindings.push(query.limit ?? -1);
+    if (query.offset !== undefined) {
+      sql += ' OFFSET ?';
+      bindings.push(query.offset);
+    }
   }
   
   return sql;
 }
 
-function buildTraversalQuery(config: TraversalConfig): string {
+// Fluent builder for SearchQuery filters. Created standalone with query() and passed to
+// findNodes, or via graph.query() which can run itself with all() and first().
+// On typed graphs the keys are checked against the body type.
+export class NodeQuery<N extends object = object> {
+  private readonly search: SearchQuery = { filters: [], orderBy: [] };
+  
+  constructor(private readonly graph?: GraphDatabase<N, any>) {}
+  
+  where(key: BodyKey<N>, predicate: FilterPredicate, value: any): this;
+  where(group: NodeQuery<N>): this;
+  where(keyOrGroup: string | NodeQuery<N>, predicate?: FilterPredicate, value?: any): this {
+    return this.add('AND', keyOrGroup, predicate, value);
+  }
+  
+  and(key: BodyKey<N>, predicate: FilterPredicate, value: any): this;
+  and(group: NodeQuery<N>): this;
+  and(keyOrGroup: string | NodeQuery<N>, predicate?: FilterPredicate, value?: any): this {
+    return this.add('AND', keyOrGroup, predicate, value);
+  }
+  
+  or(key: BodyKey<N>, predicate: FilterPredicate, value: any): this;
+  or(group: NodeQuery<N>): this;
+  or(keyOrGroup: string | NodeQuery<N>, predicate?: FilterPredicate, value?: any): this {
+    return this.add('OR', keyOrGroup, predicate, value);
+  }
+  
+  not(key: BodyKey<N>, predicate: FilterPredicate, value: any): this;
+  not(group: NodeQuery<N>): this;
+  not(keyOrGroup: string | NodeQuery<N>, predicate?: FilterPredicate, value?: any): this {
+    return this.add('NOT', keyOrGroup, predicate, value);
+  }
+  
+  orderBy(key: BodyKey<N>, direction: 'ASC' | 'DESC' = 'ASC'): this {
+    this.search.orderBy!.push({ key, direction });
+    return this;
+  }
+  
+  limit(count: number): this {
+    this.search.limit = count;
+    return this;
+  }
+  
+  offset(count: number): this {
+    this.search.offset = count;
+    return this;
+  }
+  
+  /** Only nodes carrying all of these labels */
+  labeled(...labels: string[]): this {
+    this.search.labels = [...(this.search.labels || []), ...labels];
+    return this;
+  }
+  
+  /** Continue after the node with this id, using the current ordering */
+  after(identifier: string | number): this {
+    this.search.after = identifier;
+    return this;
+  }
+  
+  /** The SearchQuery this builder describes */
+  toSearchQuery(): SearchQuery {
+    return {
+      ...this.search,
+      filters: [...this.search.filters!],
+      orderBy: [...this.search.orderBy!],
+      ...(this.search.labels ? { labels: [...this.search.labels] } : {})
+    };
+  }
+  
+  /** Compiled SQL and its bound parameters */
+  toSQL(): { sql: string; bindings: any[] } {
+    const bindings: any[] = [];
+    const sql = buildSearchQuery(this.search, bindings);
+    return { sql, bindings };
+  }
+  
+  all(): StoredNode<N>[] {
+    if (!this.graph) {
+      throw new DatabaseError('Query is not bound to a graph; pass it to findNodes');
+    }
+    return this.graph.findNodes(this);
+  }
+  
+  count(): number {
+    if (!this.graph) {
+      throw new DatabaseError('Query is not bound to a graph; pass it to countNodes');
+    }
+    return this.graph.countNodes(this);
+  }
+  
+  first(): StoredNode<N> | null {
+    if (!this.graph) {
+      throw new DatabaseError('Query is not bound to a graph; pass it to findNodes');
+    }
+    return this.graph.findNodes({ ...this.toSearchQuery(), limit: 1 })[0] || null;
+  }
+  
+  private add(andOr: 'AND' | 'OR' | 'NOT', keyOrGroup: string | NodeQuery<N>, predicate?: FilterPredicate, value?: any): this {
+    if (keyOrGroup instanceof NodeQuery) {
+      this.search.filters!.push({ andOr, group: keyOrGroup.search.filters! });
+    } else {
+      this.search.filters!.push({ andOr, key: keyOrGroup, predicate: predicate!, value });
+    }
+    return this;
+  }
+}
+
+export function query<N extends object = object>(): NodeQuery<N> {
+  return new NodeQuery<N>();
+}
+
+// Conditions an edge step must meet, given which end it leads to: the requested types,
+// edge filters and node filters on the next node
+function buildStepConditions(config: TraversalConfig, next: 'source' | 'target', bindings: any[]): string[] {
+  const conditions: string[] = [];
+  if (config.edgeTypes) {
+    conditions.push(`edges.type IN (${config.edgeTypes.map(type => sqlString(String(type))).join(', ') || 'NULL'})`);
+  }
+  const edgeFilters = filterClauses(config.edgeFilters);
+  if (edgeFilters.length > 0) {
+    conditions.push(`(${buildFilterClause(edgeFilters, bindings, 'properties')})`);
+  }
+  const nodeFilters = filterClauses(config.nodeFilters);
+  if (nodeFilters.length > 0) {
+    conditions.push(`EXISTS (SELECT 1 FROM nodes WHERE nodes.id = edges.${next} AND (${buildFilterClause(nodeFilters, bindings)}))`);
+  }
+  return conditions;
+}
+
+function filterClauses(filters?: FilterClause[] | NodeQuery<any>): FilterClause[] {
+  if (filters instanceof NodeQuery) {
+    return filters.toSearchQuery().filters || [];
+  }
+  return filters || [];
+}
+
+function validateLimit(limit?: number): void {
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 0)) {
+    throw new ValidationError('limit must be a non-negative integer');
+  }
+}
+
+// Placeholders for filter values follow the source id's, in `bindings` order
+function buildTraversalQuery(config: TraversalConfig, bindings: any[] = []): string {
   const withBodies = config.withBodies;
+  const bounded = config.maxDepth !== undefined;
+  validateMaxDepth(config.maxDepth);
+  validateLimit(config.limit);
+  
   let sql = 'WITH RECURSIVE traverse(x';
   
   if (withBodies) {
-    sql += ', y, obj, src, tgt';
+    sql += ', y, obj, src, tgt, eid, etype';
+  }
+  
+  if (bounded) {
+    sql += ', depth';
   }
   
   sql += ') AS (\n  SELECT id';
   
   if (withBodies) {
-    sql += ", '()', body, null, null";
+    sql += ", '()', body, null, null, null, null";
+  }
+  
+  if (bounded) {
+    sql += ', 0';
   }
   
   sql += ' FROM nodes WHERE id = ?\n  UNION\n  SELECT id';
   
   if (withBodies) {
-    sql += ", '()', body, null, null";
+    sql += ", '()', body, null, null, null, null";
+  }
+  
+  if (bounded) {
+    sql += ', depth';
   }
   
   sql += ' FROM nodes JOIN traverse ON id = x';
   
+  // Edges are only followed from rows that are still below the depth limit
+  const stepFilter = (next: 'source' | 'target') => {
+    const conditions = [...(bounded ? [`depth < ${config.maxDepth}`] : []), ...buildStepConditions(config, next, bindings)];
+    return conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '';
+  };
+  
   if (config.inbound) {
     sql += '\n  UNION\n  SELECT source';
     if (withBodies) {
-      sql += ", '<-', properties, source, target";
+      sql += ", '<-', properties, source, target, edges.id, edges.type";
+    }
+    if (bounded) {
+      sql += ', depth + 1';
     }
-    sql += ' FROM edges JOIN traverse ON target = x';
+    sql += ' FROM edges JOIN traverse ON target = x' + stepFilter('source');
   }
   
   if (config.outbound) {
     sql += '\n  UNION\n  SELECT target';
     if (withBodies) {
-      sql += ", '->', properties, source, target";
+      sql += ", '->', properties, source, target, edges.id, edges.type";
     }
-    sql += ' FROM edges JOIN traverse ON source = x';
+    if (bounded) {
+      sql += ', depth + 1';
+    }
+    sql += ' FROM edges JOIN traverse ON source = x' + stepFilter('target');
   }
   
   sql += '\n) SELECT x';
   
   if (withBodies) {
-    sql += ', y, obj, src, tgt';
+    sql += ', y, obj, src, tgt, eid, etype';
   }
   
-  sql += ' FROM traverse';
+  if (bounded) {
+    // A row can be reached along several paths; report the shortest hop count
+    sql += ', MIN(depth) AS depth FROM traverse GROUP BY x';
+    if (withBodies) {
+      sql += ', y, obj, src, tgt, eid, etype';
+    }
+    sql += ' ORDER BY depth';
+  } else {
+    sql += ' FROM traverse';
+  }
   
-  if (config.maxDepth) {
-    // Note: maxDepth would require additional LIMIT logic in recursive CTE
-    // This is a simplified implementation
+  if (config.limit !== undefined) {
+    sql += ` LIMIT ${config.limit}`;
   }
   
   return sql;
 }
 
-// Helper functions
-function setIdentifier(data: any, identifier: string | number): object {
-  const result = { ...data };
-  if (identifier !== undefined) {
-    result.id = identifier;
+// Node ids are stored as text, which is also how edges refer to them. Ids handed out by the
+// graph, or compared with stored ones, go through here so numeric ids match.
+function storedId(identifier: string | number): string {
+  return String(identifier);
+}
+
+function toEdgeData(row: any): EdgeData {
+  return {
+    id: row.id,
+    source: storedId(row.source),
+    target: storedId(row.target),
+    properties: row.properties ? parseJSON(row.properties) : {},
+    ...(row.type != null ? { type: row.type } : {})
+  };
+}
+
+// Map a row of the traversal query onto a node or edge entry
+function toGraphData(row: any, config: TraversalConfig): GraphData {
+  let data: GraphData;
+  if (!config.withBodies) {
+    data = { node: { identifier: storedId(row.x), body: {} } };
+  } else if (row.y === '()') {
+    data = { node: { identifier: storedId(row.x), body: parseJSON(row.obj) } };
+  } else {
+    // It's an edge - use the actual source and target from the query
+    data = { edge: toEdgeData({ id: row.eid, source: row.src, target: row.tgt, properties: row.obj, type: row.etype }) };
   }
-  return result;
+  if (config.maxDepth !== undefined) {
+    data.depth = row.depth;
+  }
+  return data;
 }
 
-function validateJSON(data: any): string {
-  try {
-    return JSON.stringify(data);
-  } catch (error) {
-    throw new ValidationError('Invalid JSON data');
+// Common table expressions that shadow nodes and edges with their state at a point in time,
+// so the regular queries run against history unchanged
+function buildAsOfTables(timestamp: string): string {
+  const at = sqlString(timestamp);
+  return `nodes AS (
+  SELECT v.body AS body, v.id AS id FROM node_versions v
+  WHERE v.body IS NOT NULL
+    AND v.version = (SELECT max(version) FROM node_versions w WHERE w.id = v.id AND w.valid_from <= ${at})
+), edges AS (
+  SELECT v.id AS id, v.source AS source, v.target AS target, v.properties AS properties, v.type AS type FROM edge_versions v
+  WHERE v.removed = 0
+    AND v.version = (SELECT max(version) FROM edge_versions w WHERE w.id = v.id AND w.valid_from <= ${at})
+)`;
+}
+
+function withTables(sql: string, tables: string): string {
+  const recursive = /^WITH RECURSIVE /i.exec(sql);
+  return recursive ? `WITH RECURSIVE ${tables}, ${sql.slice(recursive[0].length)}` : `WITH ${tables}\n${sql}`;
+}
+
+// FTS5 table with one column per indexed body key, kept in sync with nodes by triggers.
+// nodes has no INTEGER PRIMARY KEY, so its rowids may change on VACUUM; nodes_fts_ids
+// gives each node id a stable FTS rowid instead.
+function buildTextSearchSQL(fields: string[]): string {
+  const columns = fields.map(field => `"${field}"`).join(', ');
+  const values = (row: string) => fields.map(field => `json_extract(${row}.body, ${jsonPath(field)})`).join(', ');
+  const insert = (row: string) => `INSERT INTO nodes_fts_ids (id) VALUES (${row}.id);
+    INSERT INTO nodes_fts (rowid, ${columns})
+    VALUES ((SELECT docid FROM nodes_fts_ids WHERE id = ${row}.id), ${values(row)});`;
+  const remove = `DELETE FROM nodes_fts WHERE rowid = (SELECT docid FROM nodes_fts_ids WHERE id = OLD.id);
+    DELETE FROM nodes_fts_ids WHERE id = OLD.id;`;
+  
+  return `CREATE TABLE nodes_fts_ids (docid INTEGER PRIMARY KEY, id TEXT NOT NULL UNIQUE);
+CREATE VIRTUAL TABLE nodes_fts USING fts5(${columns}, tokenize = 'unicode61 remove_diacritics 2');
+CREATE TRIGGER fts_node_insert AFTER INSERT ON nodes BEGIN
+    ${insert('NEW')}
+END;
+CREATE TRIGGER fts_node_update AFTER UPDATE ON nodes BEGIN
+    ${remove}
+    ${insert('NEW')}
+END;
+CREATE TRIGGER fts_node_delete AFTER DELETE ON nodes BEGIN
+    ${remove}
+END;
+INSERT INTO nodes_fts_ids (id) SELECT id FROM nodes;
+INSERT INTO nodes_fts (rowid, ${columns})
+SELECT i.docid, ${values('nodes')} FROM nodes JOIN nodes_fts_ids i ON i.id = nodes.id;`;
+}
+
+// searchText wraps the query in a column filter group, so a stray ')' outside a
+// "string" would close that group and let the rest match every column
+function validateTextQuery(text: string): void {
+  let depth = 0;
+  let quoted = false;
+  for (const char of text) {
+    if (char === '"') {
+      quoted = !quoted;
+    } else if (!quoted && char === '(') {
+      depth++;
+    } else if (!quoted && char === ')' && --depth < 0) {
+      break;
+    }
+  }
+  if (depth !== 0 || quoted) {
+    throw new ValidationError('Search text has unbalanced parentheses or quotes');
   }
 }
 
-function parseJSON(json: string): object {
-  try {
-    return JSON.parse(json);
-  } catch (error) {
-    throw new DatabaseError('Corrupted data');
+// Only the conditions that are set are emitted, so source_idx and target_idx stay usable
+function buildEdgeQuery(filter: EdgeFilter, bindings: any[]): string {
+  const conditions: string[] = [];
+  if (filter.source !== undefined) {
+    conditions.push('source = ?');
+    bindings.push(filter.source);
+  }
+  if (filter.target !== undefined) {
+    conditions.push('target = ?');
+    bindings.push(filter.target);
   }
+  if (filter.node !== undefined) {
+    conditions.push('(source = ? OR target = ?)');
+    bindings.push(filter.node, filter.node);
+  }
+  if (filter.where) {
+    conditions.push(buildScopeClause('properties', filter.where));
+  }
+  if (filter.type !== undefined) {
+    conditions.push('type = ?');
+    bindings.push(filter.type);
+  }
+  return `SELECT * FROM edges${conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : ''}`;
 }
 
-// Factory function to create a graph database instance
-export function createGraph(database?: string): GraphDatabase {
-  const db = new Database(database || ':memory:');
+function buildPathQuery(config: PathConfig): string {
+  const direction = config.direction || 'outbound';
+  validateMaxDepth(config.maxDepth);
   
-  // Enable WAL mode and foreign keys
-  db.exec('PRAGMA journal_mode = WAL');
-  db.exec('PRAGMA foreign_keys = ON');
+  let next: string;
+  let join: string;
+  if (direction === 'inbound') {
+    next = 'source';
+    join = 'target = x';
+  } else if (direction === 'outbound') {
+    next = 'target';
+    join = 'source = x';
+  } else {
+    next = 'CASE WHEN source = x THEN target ELSE source END';
+    join = '(source = x OR target = x)';
+  }
   
-  // Initialize schema
-  db.exec(schemaSQL);
+  // ?1 is the source node, ?2 the target; paths stop growing once they reach the target
+  // and never revisit a node, so only simple paths are produced
+  let sql = 'WITH RECURSIVE paths(x, depth, visited, trail) AS (\n';
+  sql += '  SELECT id, 0, json_array(id), json_array() FROM nodes WHERE id = ?1\n';
+  sql += '  UNION ALL\n';
+  sql += `  SELECT ${next}, depth + 1, json_insert(visited, '$[#]', ${next}), json_insert(trail, '$[#]', edges.id)`;
+  sql += ` FROM edges JOIN paths ON ${join}`;
+  sql += '\n  WHERE x IS NOT ?2';
+  sql += ` AND NOT EXISTS (SELECT 1 FROM json_each(visited) WHERE value = ${next})`;
   
-  // Prepare statements
+  if (config.maxDepth !== undefined) {
+    sql += ` AND depth < ${config.maxDepth}`;
+  }
+  
+  sql += '\n) SELECT visited, trail FROM paths WHERE x = ?2 ORDER BY depth';
+  
+  return sql;
+}
+
+// Helper functions
+function validateMaxDepth(maxDepth?: number): void {
+  if (maxDepth !== undefined && (!Number.isInteger(maxDepth) || maxDepth < 0)) {
+    throw new ValidationError('maxDepth must be a non-negative integer');
+  }
+}
+
+function edgeWeight(edge: EdgeData, weight?: string): number {
+  if (!weight) {
+    return 1;
+  }
+  
+  let value: any = edge.properties;
+  for (const part of weight.split('.')) {
+    value = value?.[part];
+  }
+  
+  if (value === undefined || value === null) {
+    return 1;
+  }
+  if (typeof value !== 'number' || value < 0) {
+    throw new ValidationError(`Edge weight '${weight}' must be a non-negative number`);
+  }
+  return value;
+}
+
+// Minimal binary heap used as the priority queue for shortestPath
+class MinQueue<T> {
+  private items: { priority: number; value: T }[] = [];
+  
+  get size(): number {
+    return this.items.length;
+  }
+  
+  push(value: T, priority: number): void {
+    const items = this.items;
+    items.push({ priority, value });
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent]!.priority <= items[i]!.priority) break;
+      [items[parent], items[i]] = [items[i]!, items[parent]!];
+      i = parent;
+    }
+  }
+  
+  pop(): T | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last) {
+      items[0] = last;
+      let i = 0;
+      while (true) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < items.length && items[left]!.priority < items[smallest]!.priority) smallest = left;
+        if (right < items.length && items[right]!.priority < items[smallest]!.priority) smallest = right;
+        if (smallest === i) break;
+        [items[smallest], items[i]] = [items[i]!, items[smallest]!];
+        i = smallest;
+      }
+    }
+    return top?.value;
+  }
+}
+
+function setIdentifier(data: any, identifier: string | number): object {
+  const result = { ...data };
+  if (identifier !== undefined) {
+    result.id = identifier;
+  }
+  return result;
+}
+
+function validateJSON(data: any): string {
+  try {
+    return JSON.stringify(data);
+  } catch (error) {
+    throw new ValidationError('Invalid JSON data');
+  }
+}
+
+function parseJSON(json: string): object {
+  try {
+    return JSON.parse(json);
+  } catch (error) {
+    throw new DatabaseError('Corrupted data');
+  }
+}
+
+// Bring databases created by earlier versions up to the current schema.
+// Runs after schema.sql, so tables that did not exist yet are already current.
+function migrateSchema(db: Database): void {
+  const edgeColumns = db.prepare('PRAGMA table_info(edges)').all() as any[];
+  if (!edgeColumns.some(column => column.name === 'id')) {
+    // Edges used to be identified by (source, target, properties); rebuild the
+    // table with a primary key and give every existing edge a generated id
+    db.transaction(() => {
+      db.exec('ALTER TABLE edges RENAME TO edges_legacy');
+      db.exec('DROP INDEX IF EXISTS source_idx');
+      db.exec('DROP INDEX IF EXISTS target_idx');
+      db.exec(schemaSQL);
+      db.exec('INSERT INTO edges (source, target, properties) SELECT source, target, properties FROM edges_legacy');
+      db.exec('DROP TABLE edges_legacy');
+    })();
+  }
+  
+  // Edge types were added later; older tables get the column
+  for (const table of ['edges', 'edge_versions']) {
+    const columns = db.prepare(`PRAGMA table_info(${table})`).all() as any[];
+    if (!columns.some(column => column.name === 'type')) {
+      db.exec(`ALTER TABLE ${table} ADD COLUMN type TEXT`);
+    }
+  }
+  db.exec('CREATE INDEX IF NOT EXISTS type_idx ON edges(type)');
+}
+
+const HISTORY_TRIGGERS = [
+  'history_node_insert', 'history_node_update', 'history_node_delete',
+  'history_edge_insert', 'history_edge_update', 'history_edge_delete'
+];
+
+const CHANGE_TRIGGERS = [
+  'changes_node_insert', 'changes_node_update', 'changes_node_delete',
+  'changes_edge_insert', 'changes_edge_update', 'changes_edge_delete'
+];
+
+const TEXT_SEARCH_TRIGGERS = ['fts_node_insert', 'fts_node_update', 'fts_node_delete'];
+
+const CHANGE_TYPES: ChangeType[] = ['nodeAdded', 'nodeUpdated', 'nodeRemoved', 'edgeAdded', 'edgeUpdated', 'edgeRemoved'];
+
+// Synchronous methods that write; the streaming loaders emit per chunk instead
+const WRITE_METHODS = [
+  'addNode', 'addNodes', 'updateNodeBody', 'upsertNode', 'removeNode', 'removeNodes', 'transaction',
+  'connectNodes', 'connectNodesWithProperties', 'updateEdge', 'removeEdge', 'bulkConnectNodes',
+  'bulkConnectNodesWithProperties', 'updateEdgeProperties', 'bulkUpdateEdgeProperties', 'disconnectNodes',
+  'bulkDisconnectNodes', 'removeIncomingEdges', 'removeOutgoingEdges', 'importGraph', 'mergeGraph', 'revertNode', 'setEdgeType'
+] as const satisfies readonly (keyof GraphDatabase)[];
+
+// Factory function to create a graph database instance
+export function createGraph<NodeMap extends TypeMap = {}, EdgeMap extends TypeMap = {}>(database?: string): GraphDatabase<TypedBody<NodeMap>, TypedBody<EdgeMap>> {
+  const db = new Database(database || ':memory:');
+  
+  // Enable WAL mode and foreign keys
+  db.exec('PRAGMA journal_mode = WAL');
+  db.exec('PRAGMA foreign_keys = ON');
+  
+  // Initialize schema
+  db.exec(schemaSQL);
+  migrateSchema(db);
+  
+  // Prepare statements
   const insertNodeStmt = db.prepare(insertNodeSQL);
   const updateNodeStmt = db.prepare(updateNodeSQL);
   const deleteNodeStmt = db.prepare(deleteNodeSQL);
+  const nodeExistsStmt = db.prepare(nodeExistsSQL);
+  const countOtherEdgesStmt = db.prepare(countOtherEdgesSQL);
+  const exportNodesStmt = db.prepare(exportNodesSQL);
+  const exportEdgesStmt = db.prepare(exportEdgesSQL);
+  const changesSinceStmt = db.prepare(changesSinceSQL);
+  const lastChangeStmt = db.prepare(lastChangeSQL);
+  const pruneChangesStmt = db.prepare(pruneChangesSQL);
+  const triggerExistsStmt = db.prepare(triggerExistsSQL);
+  const nodeVersionsStmt = db.prepare(nodeVersionsSQL);
+  const edgeVersionsStmt = db.prepare(edgeVersionsSQL);
   const insertEdgeStmt = db.prepare(insertEdgeSQL);
+  const searchEdgeStmt = db.prepare(searchEdgeSQL);
+  const updateEdgeIdStmt = db.prepare(updateEdgeIdSQL);
+  const deleteEdgeIdStmt = db.prepare(deleteEdgeIdSQL);
   const updateEdgeStmt = db.prepare(updateEdgeSQL);
   const deleteEdgeStmt = db.prepare(deleteEdgeSQL);
+  const deleteEdgePropertiesStmt = db.prepare(deleteEdgePropertiesSQL);
   const deleteEdgesStmt = db.prepare(deleteEdgesSQL);
+  const deleteIncomingEdgesStmt = db.prepare(deleteIncomingEdgesSQL);
+  const deleteOutgoingEdgesStmt = db.prepare(deleteOutgoingEdgesSQL);
   const searchEdgesStmt = db.prepare(searchEdgesSQL);
   const searchEdgesInboundStmt = db.prepare(searchEdgesInboundSQL);
   const searchEdgesOutboundStmt = db.prepare(searchEdgesOutboundSQL);
+  const listIndexesStmt = db.prepare(listIndexesSQL);
+  const insertConstraintStmt = db.prepare(insertConstraintSQL);
+  const deleteConstraintStmt = db.prepare(deleteConstraintSQL);
+  const listConstraintsStmt = db.prepare(listConstraintsSQL);
+  const textSearchFieldsStmt = db.prepare(textSearchFieldsSQL);
+  const otherEmbeddingStmt = db.prepare(otherEmbeddingSQL);
+  const upsertEmbeddingStmt = db.prepare(upsertEmbeddingSQL);
+  const nodeEmbeddingStmt = db.prepare(nodeEmbeddingSQL);
+  const deleteEmbeddingStmt = db.prepare(deleteEmbeddingSQL);
+  const updateEdgeTypeStmt = db.prepare(updateEdgeTypeSQL);
+  const edgeTypesBetweenStmt = db.prepare(edgeTypesBetweenSQL);
+  const insertLabelStmt = db.prepare(insertLabelSQL);
+  const deleteLabelStmt = db.prepare(deleteLabelSQL);
+  const nodeLabelsStmt = db.prepare(nodeLabelsSQL);
+  const countLabelsStmt = db.prepare(countLabelsSQL);
+  const countEdgeTypesStmt = db.prepare(countEdgeTypesSQL);
+  
+  // Registered schemas, matched against a node body or edge properties by their type key
+  interface SchemaRegistration {
+    type: string;
+    typeKey: string;
+    check: (data: any) => SchemaIssue | null;
+  }
+  const nodeSchemas: SchemaRegistration[] = [];
+  const edgeSchemas: SchemaRegistration[] = [];
+  
+  function register(registry: SchemaRegistration[], type: string, schema: JSONSchema | SchemaValidator, options: SchemaOptions): void {
+    const typeKey = options.typeKey || 'type';
+    const check = typeof schema === 'function'
+      ? (data: any) => {
+          const result = schema(data);
+          if (result === true || result === undefined || result === null) return null;
+          if (result === false) return { path: '$', message: `Invalid ${type}` };
+          if (typeof result === 'string') return { path: '$', message: result };
+          return result;
+        }
+      : (data: any) => checkSchema(schema, data);
+    unregister(registry, type, options);
+    registry.push({ type, typeKey, check });
+  }
+  
+  function unregister(registry: SchemaRegistration[], type: string, options: SchemaOptions): void {
+    const typeKey = options.typeKey || 'type';
+    const index = registry.findIndex(entry => entry.type === type && entry.typeKey === typeKey);
+    if (index !== -1) {
+      registry.splice(index, 1);
+    }
+  }
+  
+  // Validate against matching schemas and serialize for storage.
+  // Edge schemas also match the edge type column, passed as `types`.
+  function checkedJSON(registry: SchemaRegistration[], data: any, types: (string | null)[] = []): string {
+    for (const entry of registry) {
+      if (data?.[entry.typeKey] === entry.type || types.includes(entry.type)) {
+        const issue = entry.check(data);
+        if (issue) {
+          throw new ValidationError(`${issue.message} at ${issue.path}`, issue.path);
+        }
+      }
+    }
+    return validateJSON(data);
+  }
+  
+  function insertEdge(sourceId: string | number, targetId: string | number, properties: object, identifier?: string | number, type?: string): string {
+    const id = identifier === undefined ? null : String(identifier);
+    if (type !== undefined) {
+      checkLabel(type, 'Edge type');
+    }
+    const result = insertEdgeStmt.get(id, sourceId, targetId, checkedJSON(edgeSchemas, properties, [type ?? null]), type ?? null) as any;
+    return result.id;
+  }
+  
+  function checkLabel(label: unknown, what = 'Label'): void {
+    if (typeof label !== 'string' || label.length === 0) {
+      throw new ValidationError(`${what} must be a non-empty string`);
+    }
+  }
+  
+  function insertLabels(identifier: string | number, labels: string[]): void {
+    if (!Array.isArray(labels)) {
+      throw new ValidationError('Labels must be an array of strings');
+    }
+    labels.forEach(label => checkLabel(label));
+    for (const label of labels) {
+      insertLabelStmt.run(identifier, label);
+    }
+  }
+  
+  // Edges of a node, optionally narrowed to some types
+  function edgesOf(sql: string, args: (string | number)[], options: ConnectionOptions, tables?: string): EdgeData[] {
+    if (!options.types) {
+      return (prepareAt(sql, tables).all(...args) as any[]).map(toEdgeData);
+    }
+    options.types.forEach(type => checkLabel(type, 'Edge type'));
+    const filtered = `SELECT * FROM (${sql}) WHERE type IN (SELECT value FROM json_each(?))`;
+    return (prepareAt(filtered, tables).all(...args, JSON.stringify(options.types)) as any[]).map(toEdgeData);
+  }
+  
+  function nodeWriteError(error: any): Error {
+    const message: string = error.message || '';
+    if (message.includes('UNIQUE constraint failed: nodes.id')) {
+      return new ConstraintError('Duplicate node ID');
+    }
+    const index = /UNIQUE constraint failed: index '([^']+)'/.exec(message);
+    if (index) {
+      const info = [...graph.listConstraints(), ...graph.listIndexes()].find(candidate => candidate.name === index[1]);
+      return new ConstraintError(`Duplicate value for unique key '${info ? info.key : index[1]}'`);
+    }
+    // Raised by the triggers behind required-key constraints
+    const required = /^constraint:(\S+)$/.exec(message);
+    if (required) {
+      const info = graph.listConstraints().find(candidate => candidate.name === required[1]);
+      return new ConstraintError(`Missing required key '${info ? info.key : required[1]}'`);
+    }
+    if (message.includes('UNIQUE constraint failed')) {
+      return new ConstraintError('Duplicate node ID');
+    }
+    return error;
+  }
+  
+  function edgeInsertError(error: any): Error {
+    if (error.message?.includes('FOREIGN KEY constraint failed')) {
+      return new ConstraintError('Source or target node does not exist');
+    }
+    if (error.message?.includes('UNIQUE constraint failed')) {
+      return new ConstraintError('Duplicate edge ID');
+    }
+    return error;
+  }
+  
+  function neighbours(identifier: string | number, direction: PathConfig['direction']): { edge: EdgeData; next: string | number }[] {
+    let rows: any[];
+    if (direction === 'inbound') {
+      rows = searchEdgesInboundStmt.all(identifier) as any[];
+    } else if (direction === 'both') {
+      rows = searchEdgesStmt.all(identifier, identifier) as any[];
+    } else {
+      rows = searchEdgesOutboundStmt.all(identifier) as any[];
+    }
+    return rows.map(toEdgeData).map(edge => ({
+      edge,
+      next: direction === 'inbound' ? edge.source
+        : direction === 'both' ? (edge.source === storedId(identifier) ? edge.target : edge.source)
+        : edge.target
+    }));
+  }
+  
+  function* traversalRows(sourceId: string | number, config: TraversalConfig, tables?: string): Generator<GraphData> {
+    if (config.order !== undefined) {
+      yield* walk(sourceId, config, tables);
+      return;
+    }
+    const bindings: any[] = [sourceId];
+    const stmt = prepareAt(buildTraversalQuery(config, bindings), tables);
+    for (const row of stmt.iterate(...bindings)) {
+      yield toGraphData(row, config);
+    }
+  }
+  
+  // Ordered traversal, expanding one node at a time. Each node is visited once; with
+  // 'dfs' its depth is that of the path the walk took, not necessarily the shortest.
+  function* walk(sourceId: string | number, config: TraversalConfig, tables?: string): Generator<GraphData> {
+    if (config.order !== 'bfs' && config.order !== 'dfs') {
+      throw new ValidationError(`Invalid traversal order: ${config.order}`);
+    }
+    validateMaxDepth(config.maxDepth);
+    validateLimit(config.limit);
+    
+    const steps = (['inbound', 'outbound'] as const).filter(direction => config[direction]).map(direction => {
+      const [from, next] = direction === 'inbound' ? ['target', 'source'] as const : ['source', 'target'] as const;
+      const bindings: any[] = [];
+      const conditions = [`edges.${from} = ?`, ...buildStepConditions(config, next, bindings)];
+      const sql = `SELECT edges.*, edges.${next} AS next, nodes.body AS body FROM edges JOIN nodes ON nodes.id = edges.${next} WHERE ${conditions.join(' AND ')}`;
+      return { stmt: prepareAt(sql, tables), bindings };
+    });
+    
+    const start = prepareAt('SELECT id, body FROM nodes WHERE id = ?', tables).get(sourceId) as any;
+    if (!start) {
+      return;
+    }
+    
+    const bfs = config.order === 'bfs';
+    const limit = config.limit ?? Infinity;
+    const withDepth = (data: GraphData, depth: number): GraphData => config.maxDepth !== undefined ? { ...data, depth } : data;
+    const pending: { id: string; body: string; depth: number }[] = [{ id: start.id, body: start.body, depth: 0 }];
+    const visited = new Set<string>(bfs ? [start.id] : []);
+    const edges = new Set<string>();
+    let head = 0;
+    let count = 0;
+    
+    while (head < pending.length && count < limit) {
+      const current = bfs ? pending[head++]! : pending.pop()!;
+      if (!bfs) {
+        if (visited.has(current.id)) continue;
+        visited.add(current.id);
+      }
+      yield withDepth({ node: { identifier: current.id, body: config.withBodies ? parseJSON(current.body) : {} } }, current.depth);
+      count++;
+      if (config.maxDepth !== undefined && current.depth >= config.maxDepth) continue;
+      
+      const discovered: typeof pending = [];
+      for (const step of steps) {
+        for (const row of step.stmt.all(current.id, ...step.bindings) as any[]) {
+          if (config.withBodies && !edges.has(row.id) && count < limit) {
+            edges.add(row.id);
+            yield withDepth({ edge: toEdgeData(row) }, current.depth + 1);
+            count++;
+          }
+          if (!visited.has(row.next)) {
+            if (bfs) visited.add(row.next);
+            discovered.push({ id: row.next, body: row.body, depth: current.depth + 1 });
+          }
+        }
+      }
+      // The stack is popped from the end, so the first neighbour is walked first
+      pending.push(...(bfs ? discovered : discovered.reverse()));
+    }
+  }
+  
+  // Remove one node and its edges according to the policy; false if the node does not exist.
+  // `removing` holds the stored ids of every node removed in the same call, which the orphan check ignores.
+  function removeNodeWithPolicy(identifier: string | number, policy: RemoveOptions['policy'] = 'cascade', removing: Set<string>): boolean {
+    if (policy !== 'cascade' && policy !== 'restrict' && policy !== 'orphan-check') {
+      throw new ValidationError(`Invalid remove policy: ${policy}`);
+    }
+    if (!nodeExistsStmt.get(identifier)) {
+      return false;
+    }
+    
+    const edges = searchEdgesStmt.all(identifier, identifier) as any[];
+    if (policy === 'restrict' && edges.length > 0) {
+      throw new ConstraintError(`Node ${identifier} still has ${edges.length} edge(s)`);
+    }
+    if (policy === 'orphan-check') {
+      for (const edge of edges) {
+        const neighbour = edge.source === storedId(identifier) ? edge.target : edge.source;
+        if (removing.has(neighbour)) continue;
+        const remaining = countOtherEdgesStmt.get(neighbour, identifier) as any;
+        if (remaining.count === 0) {
+          throw new ConstraintError(`Removing node ${identifier} would orphan node ${neighbour}`);
+        }
+      }
+    }
+    
+    deleteEdgesStmt.run(identifier, identifier);
+    deleteNodeStmt.run(identifier);
+    return true;
+  }
+  
+  function conflictPolicy(onConflict: ConflictPolicy = 'error'): ConflictPolicy {
+    if (!['error', 'skip', 'replace', 'merge'].includes(onConflict)) {
+      throw new ValidationError(`Invalid conflict policy: ${onConflict}`);
+    }
+    return onConflict;
+  }
+  
+  // Write one imported node or edge, resolving an existing id by the conflict policy.
+  // Writes go through the graph so schemas and constraints apply.
+  function writeNode(body: any, onConflict: ConflictPolicy, labels?: string[]): keyof ImportCounts {
+    const id = body?.id;
+    if (id === undefined || !nodeExistsStmt.get(id)) {
+      graph.addNode(body, undefined, labels ? { labels } : {});
+      return 'added';
+    }
+    if (onConflict === 'error') {
+      throw new ConstraintError(`Duplicate node ID: ${id}`);
+    }
+    if (onConflict === 'skip') {
+      return 'skipped';
+    }
+    if (onConflict === 'merge') {
+      graph.upsertNode(id, body);
+    } else {
+      graph.updateNodeBody(id, body);
+      if (labels) {
+        graph.removeLabels(id, graph.nodeLabels(id).filter(label => !labels.includes(label)));
+      }
+    }
+    if (labels) {
+      graph.addLabels(id, labels);
+    }
+    return 'updated';
+  }
+  
+  function writeEdge(edge: GraphSnapshot['edges'][number], onConflict: ConflictPolicy): keyof ImportCounts {
+    const existing = edge.id === undefined ? null : graph.findEdge(edge.id);
+    if (!existing) {
+      graph.connectNodesWithProperties(edge.source, edge.target, edge.properties, edge.id, { type: edge.type });
+      return 'added';
+    }
+    if (onConflict === 'error') {
+      throw new ConstraintError(`Duplicate edge ID: ${edge.id}`);
+    }
+    if (onConflict === 'skip') {
+      return 'skipped';
+    }
+    // Endpoints of an existing edge are kept; only its properties change
+    graph.updateEdge(edge.id!, onConflict === 'merge' ? { ...existing.properties, ...edge.properties } : edge.properties);
+    if (edge.type !== existing.type && (edge.type !== undefined || onConflict === 'replace')) {
+      graph.setEdgeType(edge.id!, edge.type ?? null);
+    }
+    return 'updated';
+  }
+  
+  // Stream rows into the graph one transaction per chunk. A failing row is reported and
+  // skipped: each write is a single statement, so it rolls back without touching the chunk.
+  async function load(source: ReadableStream<Uint8Array> | string, options: LoadOptions, write: (row: Record<string, unknown>, onConflict: ConflictPolicy) => keyof ImportCounts): Promise<LoadReport> {
+    const format = options.format || inferFormat(source);
+    if (format !== 'ndjson' && format !== 'csv') {
+      throw new ValidationError(`Unsupported format: ${format}`);
+    }
+    const chunkSize = options.chunkSize ?? 1000;
+    if (!Number.isInteger(chunkSize) || chunkSize < 1) {
+      throw new ValidationError('chunkSize must be a positive integer');
+    }
+    const onConflict = conflictPolicy(options.onConflict);
+    const report: LoadReport = { added: 0, updated: 0, skipped: 0, rejected: [] };
+    
+    const commit = db.transaction((chunk: LoadRecord[]) => {
+      for (const record of chunk) {
+        if (record.error !== undefined) {
+          report.rejected.push({ line: record.line, message: record.error });
+          continue;
+        }
+        try {
+          report[write(record.value!, onConflict)]++;
+        } catch (error: any) {
+          if (!(error instanceof ConstraintError || error instanceof ValidationError || error instanceof NotFoundError)) {
+            throw error;
+          }
+          report.rejected.push({ line: record.line, message: error.message });
+        }
+      }
+    });
+    
+    let chunk: LoadRecord[] = [];
+    for await (const record of readRecords(sourceStream(source), format)) {
+      chunk.push(record);
+      if (chunk.length >= chunkSize) {
+        commit(chunk);
+        emitChanges();
+        chunk = [];
+      }
+    }
+    if (chunk.length > 0) {
+      commit(chunk);
+      emitChanges();
+    }
+    return report;
+  }
+  
+  // Change listeners, and the last logged change delivered to them
+  const listeners = new Map<ChangeType, Map<(event: ChangeEvent) => void, ListenerOptions>>();
+  let emittedSeq = 0;
+  
+  function toChangeEvent(row: any): ChangeEvent {
+    return {
+      seq: row.seq,
+      type: row.type,
+      id: row.id,
+      data: parseJSON(row.data),
+      timestamp: row.created_at
+    };
+  }
+  
+  // Deliver logged changes once the outermost transaction has committed. Handlers may
+  // write to the graph; those changes are delivered by the nested call, hence the seq check.
+  function emitChanges(): void {
+    if (listeners.size === 0 || db.inTransaction) {
+      return;
+    }
+    for (const row of changesSinceStmt.all(emittedSeq, -1) as any[]) {
+      if (row.seq <= emittedSeq) continue;
+      emittedSeq = row.seq;
+      // The write has already committed, so a failing handler must not stop delivery
+      for (const [handler, options] of [...(listeners.get(row.type) || [])]) {
+        const event = toChangeEvent(row);
+        try {
+          handler(event);
+        } catch (error) {
+          if (options.onError) {
+            options.onError(error, event);
+          } else {
+            queueMicrotask(() => {
+              throw error;
+            });
+          }
+        }
+      }
+    }
+  }
+  
+  // Compile a search shared by findNodes and iterateNodes
+  // `tables` (from buildAsOfTables) runs the query against a point in time instead of the live graph
+  function prepareAt(sql: string, tables?: string) {
+    return db.prepare(tables ? withTables(sql, tables) : sql);
+  }
+  
+  function findNodeAt(identifier: string | number, tables?: string): object | null {
+    const clause = buildWhereClause({ idLookup: true });
+    const query = buildSearchQuery({ searchClauses: [clause] });
+    const result = prepareAt(query, tables).get(identifier) as any;
+    return result ? parseJSON(result.body) : null;
+  }
+  
+  function prepareSearch(query: SearchQuery | NodeQuery, bindings?: any[], tables?: string) {
+    const search = query instanceof NodeQuery ? query.toSearchQuery() : query;
+    if (search.after !== undefined && !findNodeAt(search.after, tables)) {
+      throw new NotFoundError('Cursor node not found');
+    }
+    
+    // Caller bindings belong to searchClauses, which precede compiled filters
+    const allBindings = bindings ? [...bindings] : [];
+    const stmt = prepareAt(buildSearchQuery(search, allBindings), tables);
+    const toResult = (row: any) => search.resultColumn === 'id' ? { id: row.id } : parseJSON(row.body);
+    return { stmt, bindings: allBindings, toResult };
+  }
+  
+  function countMatching(query: SearchQuery | NodeQuery, bindings?: any[], tables?: string): number {
+    const search = query instanceof NodeQuery ? query.toSearchQuery() : query;
+    
+    // Pagination does not affect the total
+    const allBindings = bindings ? [...bindings] : [];
+    const sql = buildSearchQuery({
+      ...search,
+      resultColumn: 'id',
+      orderBy: undefined,
+      limit: undefined,
+      offset: undefined,
+      after: undefined
+    }, allBindings);
+    const result = prepareAt(`SELECT COUNT(*) AS count FROM (${sql})`, tables).get(...allBindings) as any;
+    return result.count;
+  }
+  
+  // Read-only view over the node_versions and edge_versions tables
+  function historyView(timestamp: string): GraphView<any, any> {
+    const tables = buildAsOfTables(timestamp);
+    return {
+      timestamp,
+      
+      findNode(identifier: string | number): object | null {
+        return findNodeAt(identifier, tables);
+      },
+      
+      findNodes(query: SearchQuery | NodeQuery, bindings?: any[]): any[] {
+        const search = prepareSearch(query, bindings, tables);
+        return (search.stmt.all(...search.bindings) as any[]).map(search.toResult);
+      },
+      
+      countNodes(query: SearchQuery | NodeQuery = {}, bindings?: any[]): number {
+        return countMatching(query, bindings, tables);
+      },
+      
+      connections(identifier: string | number, options: ConnectionOptions = {}): EdgeData[] {
+        return edgesOf(searchEdgesSQL, [identifier, identifier], options, tables);
+      },
+      
+      connectionsIn(identifier: string | number, options: ConnectionOptions = {}): EdgeData[] {
+        return edgesOf(searchEdgesInboundSQL, [identifier], options, tables);
+      },
+      
+      connectionsOut(identifier: string | number, options: ConnectionOptions = {}): EdgeData[] {
+        return edgesOf(searchEdgesOutboundSQL, [identifier], options, tables);
+      },
+      
+      traverse(sourceId: string | number, config: TraversalConfig): GraphData[] {
+        return [...traversalRows(sourceId, config, tables)];
+      }
+    };
+  }
+  
+  function toNodeData(identifier: string | number, cache: Map<string, NodeData>): NodeData {
+    const id = storedId(identifier);
+    let node = cache.get(id);
+    if (!node) {
+      node = { identifier: id, body: graph.findNode(id) || {} };
+      cache.set(id, node);
+    }
+    return node;
+  }
   
   // Create the graph database instance
-  const graph: GraphDatabase = {
+  // Implemented untyped; the generic signature only narrows what callers see
+  const graph: GraphDatabase<any, any> = {
     // Node operations
-    addNode(data: object, identifier?: string | number): void {
+    addNode(data: object, identifier?: string | number, options: NodeOptions = {}): void {
       try {
         const nodeData: any = identifier !== undefined ? setIdentifier(data, identifier) : data;
         if (!nodeData.hasOwnProperty('id')) {
           throw new ValidationError('Missing identifier');
         }
-        insertNodeStmt.run(validateJSON(nodeData));
-      } catch (error: any) {
-        if (error.message?.includes('UNIQUE constraint failed')) {
-          throw new ConstraintError('Duplicate node ID');
+        if (options.labels) {
+          db.transaction(() => {
+            insertNodeStmt.run(checkedJSON(nodeSchemas, nodeData));
+            insertLabels(nodeData.id, options.labels!);
+          })();
+        } else {
+          insertNodeStmt.run(checkedJSON(nodeSchemas, nodeData));
         }
-        throw error;
+      } catch (error: any) {
+        throw nodeWriteError(error);
       }
     },
     
@@ -280,30 +1871,28 @@ export function createGraph(database?: string): GraphDatabase {
           if (!nodeData.hasOwnProperty('id')) {
             throw new ValidationError('Missing identifier');
           }
-          insertNodeStmt.run(validateJSON(nodeData));
+          insertNodeStmt.run(checkedJSON(nodeSchemas, nodeData));
         }
       });
       
       try {
         transaction(nodes, identifiers);
       } catch (error: any) {
-        if (error.message?.includes('UNIQUE constraint failed')) {
-          throw new ConstraintError('Duplicate node ID');
-        }
-        throw error;
+        throw nodeWriteError(error);
       }
     },
     
     findNode(identifier: string | number): object | null {
-      const clause = buildWhereClause({ idLookup: true });
-      const query = buildSearchQuery({ searchClauses: [clause] });
-      const stmt = db.prepare(query);
-      const result = stmt.get(identifier) as any;
-      return result ? parseJSON(result.body) : null;
+      return findNodeAt(identifier);
     },
     
     updateNodeBody(identifier: string | number, data: object): void {
-      const result = updateNodeStmt.run(validateJSON(setIdentifier(data, identifier)), identifier);
+      let result;
+      try {
+        result = updateNodeStmt.run(checkedJSON(nodeSchemas, setIdentifier(data, identifier)), identifier);
+      } catch (error: any) {
+        throw nodeWriteError(error);
+      }
       if (result.changes === 0) {
         throw new NotFoundError('Node not found');
       }
@@ -319,187 +1908,940 @@ export function createGraph(database?: string): GraphDatabase {
       }
     },
     
-    removeNode(identifier: string | number): void {
-      // First delete all edges
-      deleteEdgesStmt.run(identifier, identifier);
-      // Then delete the node
-      const result = deleteNodeStmt.run(identifier);
-      if (result.changes === 0) {
-        throw new NotFoundError('Node not found');
-      }
+    removeNode(identifier: string | number, options: RemoveOptions = {}): void {
+      const transaction = db.transaction(() => {
+        if (!removeNodeWithPolicy(identifier, options.policy, new Set([storedId(identifier)]))) {
+          throw new NotFoundError('Node not found');
+        }
+      });
+      transaction();
     },
     
-    removeNodes(identifiers: (string | number)[]): void {
+    removeNodes(identifiers: (string | number)[], options: RemoveOptions = {}): RemoveResult {
       const transaction = db.transaction((ids: (string | number)[]) => {
+        const removing = new Set(ids.map(storedId));
+        const result: RemoveResult = { removed: [], missing: [] };
         for (const id of ids) {
-          deleteEdgesStmt.run(id, id);
-          deleteNodeStmt.run(id);
+          if (removeNodeWithPolicy(id, options.policy, removing)) {
+            result.removed.push(id);
+          } else {
+            result.missing.push(id);
+          }
+        }
+        if (options.strict && result.missing.length > 0) {
+          throw new NotFoundError(`Nodes not found: ${result.missing.join(', ')}`);
+        }
+        return result;
+      });
+      return transaction(identifiers);
+    },
+    
+    // Transactions
+    transaction<T>(fn: (tx: GraphDatabase<any, any>) => T, options: TransactionOptions = {}): T {
+      const mode = options.mode || 'deferred';
+      if (mode !== 'deferred' && mode !== 'immediate' && mode !== 'exclusive') {
+        throw new ValidationError(`Invalid transaction mode: ${mode}`);
+      }
+      // An async callback would run its first statements before the check below could see the promise
+      if (fn.constructor.name === 'AsyncFunction') {
+        throw new ValidationError('Transaction callbacks must be synchronous');
+      }
+      
+      // Every operation runs on the same connection, so the graph itself is the handle.
+      // bun:sqlite turns nested transactions into savepoints.
+      const transaction = db.transaction(() => {
+        const result = fn(graph);
+        if (result && typeof (result as any).then === 'function') {
+          throw new ValidationError('Transaction callbacks must be synchronous');
         }
+        return result;
       });
-      transaction(identifiers);
+      return transaction[mode]();
     },
     
     // Edge operations
-    connectNodes(sourceId: string | number, targetId: string | number): void {
+    connectNodes(sourceId: string | number, targetId: string | number, identifier?: string | number, options?: EdgeOptions): string {
+      return graph.connectNodesWithProperties(sourceId, targetId, {}, identifier, options);
+    },
+    
+    connectNodesWithProperties(sourceId: string | number, targetId: string | number, properties: object, identifier?: string | number, options: EdgeOptions = {}): string {
       if (sourceId === undefined || targetId === undefined) {
         throw new ValidationError('Source and target IDs are required');
       }
       try {
-        insertEdgeStmt.run(sourceId, targetId, '{}');
+        return insertEdge(sourceId, targetId, properties, identifier, options.type);
       } catch (error: any) {
-        if (error.message?.includes('FOREIGN KEY constraint failed')) {
-          throw new ConstraintError('Source or target node does not exist');
-        }
-        throw error;
+        throw edgeInsertError(error);
       }
     },
     
-    connectNodesWithProperties(sourceId: string | number, targetId: string | number, properties: object): void {
-      if (sourceId === undefined || targetId === undefined) {
-        throw new ValidationError('Source and target IDs are required');
+    findEdge(identifier: string | number): EdgeData | null {
+      const result = searchEdgeStmt.get(identifier) as any;
+      return result ? toEdgeData(result) : null;
+    },
+    
+    updateEdge(identifier: string | number, properties: object): void {
+      const existing = searchEdgeStmt.get(identifier) as any;
+      const result = updateEdgeIdStmt.run(checkedJSON(edgeSchemas, properties, [existing?.type ?? null]), identifier);
+      if (result.changes === 0) {
+        throw new NotFoundError('Edge not found');
       }
-      try {
-        insertEdgeStmt.run(sourceId, targetId, validateJSON(properties));
-      } catch (error: any) {
-        if (error.message?.includes('FOREIGN KEY constraint failed')) {
-          throw new ConstraintError('Source or target node does not exist');
-        }
-        throw error;
+    },
+    
+    removeEdge(identifier: string | number): void {
+      const result = deleteEdgeIdStmt.run(identifier);
+      if (result.changes === 0) {
+        throw new NotFoundError('Edge not found');
       }
     },
     
-    connections(identifier: string | number): EdgeData[] {
+    connections(identifier: string | number, options: ConnectionOptions = {}): EdgeData[] {
+      if (options.types) {
+        return edgesOf(searchEdgesSQL, [identifier, identifier], options);
+      }
       const results = searchEdgesStmt.all(identifier, identifier) as any[];
-      return results.map(row => ({
-        source: row.source,
-        target: row.target,
-        properties: row.properties ? parseJSON(row.properties) : {}
-      }));
+      return results.map(toEdgeData);
     },
     
-    connectionsIn(identifier: string | number): EdgeData[] {
+    connectionsIn(identifier: string | number, options: ConnectionOptions = {}): EdgeData[] {
+      if (options.types) {
+        return edgesOf(searchEdgesInboundSQL, [identifier], options);
+      }
       const results = searchEdgesInboundStmt.all(identifier) as any[];
-      return results.map(row => ({
-        source: row.source,
-        target: row.target,
-        properties: row.properties ? parseJSON(row.properties) : {}
-      }));
+      return results.map(toEdgeData);
     },
     
-    connectionsOut(identifier: string | number): EdgeData[] {
+    connectionsOut(identifier: string | number, options: ConnectionOptions = {}): EdgeData[] {
+      if (options.types) {
+        return edgesOf(searchEdgesOutboundSQL, [identifier], options);
+      }
       const results = searchEdgesOutboundStmt.all(identifier) as any[];
-      return results.map(row => ({
-        source: row.source,
-        target: row.target,
-        properties: row.properties ? parseJSON(row.properties) : {}
-      }));
+      return results.map(toEdgeData);
+    },
+    
+    setEdgeType(identifier: string | number, type: string | null): void {
+      if (type !== null) {
+        checkLabel(type, 'Edge type');
+        // Existing properties must satisfy the schema registered for the new type
+        const existing = searchEdgeStmt.get(identifier) as any;
+        if (existing) {
+          checkedJSON(edgeSchemas, parseJSON(existing.properties), [type]);
+        }
+      }
+      const result = updateEdgeTypeStmt.run(type, identifier);
+      if (result.changes === 0) {
+        throw new NotFoundError('Edge not found');
+      }
+    },
+    
+    *iterateEdges(filter: EdgeFilter = {}): Generator<EdgeData> {
+      const bindings: any[] = [];
+      const stmt = db.prepare(buildEdgeQuery(filter, bindings));
+      for (const row of stmt.iterate(...bindings)) {
+        yield toEdgeData(row);
+      }
     },
     
-    bulkConnectNodes(sources: (string | number)[], targets: (string | number)[]): void {
+    bulkConnectNodes(sources: (string | number)[], targets: (string | number)[], identifiers?: (string | number)[]): string[] {
       if (sources.length !== targets.length) {
         throw new ValidationError('Sources and targets arrays must have the same length');
       }
+      return graph.bulkConnectNodesWithProperties(sources, targets, sources.map(() => ({})), identifiers);
+    },
+    
+    bulkConnectNodesWithProperties(sources: (string | number)[], targets: (string | number)[], properties: object[], identifiers?: (string | number)[]): string[] {
+      if (sources.length !== targets.length || sources.length !== properties.length) {
+        throw new ValidationError('All arrays must have the same length');
+      }
+      if (identifiers && identifiers.length !== sources.length) {
+        throw new ValidationError('Identifiers array must match sources length');
+      }
       
-      const transaction = db.transaction((srcs: (string | number)[], tgts: (string | number)[]) => {
+      const transaction = db.transaction((srcs: (string | number)[], tgts: (string | number)[], props: object[], ids?: (string | number)[]) => {
+        const created: string[] = [];
         for (let i = 0; i < srcs.length; i++) {
           const src = srcs[i];
           const tgt = tgts[i];
           if (src === undefined || tgt === undefined) {
             throw new ValidationError('Undefined source or target in bulk connect');
           }
-          insertEdgeStmt.run(src, tgt, '{}');
+          created.push(insertEdge(src, tgt, props[i]!, ids?.[i]));
         }
+        return created;
       });
       
       try {
-        transaction(sources, targets);
+        return transaction(sources, targets, properties, identifiers);
       } catch (error: any) {
-        if (error.message?.includes('FOREIGN KEY constraint failed')) {
-          throw new ConstraintError('Source or target node does not exist');
-        }
-        throw error;
+        throw edgeInsertError(error);
       }
     },
     
-    bulkConnectNodesWithProperties(sources: (string | number)[], targets: (string | number)[], properties: object[]): void {
+    updateEdgeProperties(sourceId: string | number, targetId: string | number, properties: object): void {
+      if (sourceId === undefined || targetId === undefined) {
+        throw new ValidationError('Source and target IDs are required');
+      }
+      const types = edgeTypesBetweenStmt.all(sourceId, targetId) as any[];
+      const result = updateEdgeStmt.run(checkedJSON(edgeSchemas, properties, types.map(row => row.type)), sourceId, targetId);
+      if (result.changes === 0) {
+        throw new NotFoundError('Edge not found');
+      }
+    },
+    
+    bulkUpdateEdgeProperties(sources: (string | number)[], targets: (string | number)[], properties: object[]): void {
       if (sources.length !== targets.length || sources.length !== properties.length) {
         throw new ValidationError('All arrays must have the same length');
       }
       
       const transaction = db.transaction((srcs: (string | number)[], tgts: (string | number)[], props: object[]) => {
         for (let i = 0; i < srcs.length; i++) {
-          const src = srcs[i];
-          const tgt = tgts[i];
-          if (src === undefined || tgt === undefined) {
-            throw new ValidationError('Undefined source or target in bulk connect');
+          graph.updateEdgeProperties(srcs[i]!, tgts[i]!, props[i]!);
+        }
+      });
+      transaction(sources, targets, properties);
+    },
+    
+    disconnectNodes(sourceId: string | number, targetId: string | number, properties?: object): void {
+      if (sourceId === undefined || targetId === undefined) {
+        throw new ValidationError('Source and target IDs are required');
+      }
+      const result = properties
+        ? deleteEdgePropertiesStmt.run(sourceId, targetId, validateJSON(properties))
+        : deleteEdgeStmt.run(sourceId, targetId);
+      if (result.changes === 0) {
+        throw new NotFoundError('Edge not found');
+      }
+    },
+    
+    bulkDisconnectNodes(sources: (string | number)[], targets: (string | number)[]): void {
+      if (sources.length !== targets.length) {
+        throw new ValidationError('Sources and targets arrays must have the same length');
+      }
+      
+      const transaction = db.transaction((srcs: (string | number)[], tgts: (string | number)[]) => {
+        for (let i = 0; i < srcs.length; i++) {
+          graph.disconnectNodes(srcs[i]!, tgts[i]!);
+        }
+      });
+      transaction(sources, targets);
+    },
+    
+    removeIncomingEdges(identifier: string | number): void {
+      const result = deleteIncomingEdgesStmt.run(identifier);
+      if (result.changes === 0) {
+        throw new NotFoundError('No incoming edges found');
+      }
+    },
+    
+    removeOutgoingEdges(identifier: string | number): void {
+      const result = deleteOutgoingEdgesStmt.run(identifier);
+      if (result.changes === 0) {
+        throw new NotFoundError('No outgoing edges found');
+      }
+    },
+    
+    // Labels
+    nodeLabels(identifier: string | number): string[] {
+      const rows = nodeLabelsStmt.all(identifier) as any[];
+      return rows.map(row => row.label);
+    },
+    
+    addLabels(identifier: string | number, labels: string[]): void {
+      if (!nodeExistsStmt.get(identifier)) {
+        throw new NotFoundError('Node not found');
+      }
+      db.transaction(() => insertLabels(identifier, labels))();
+    },
+    
+    removeLabels(identifier: string | number, labels: string[]): void {
+      if (!nodeExistsStmt.get(identifier)) {
+        throw new NotFoundError('Node not found');
+      }
+      db.transaction(() => labels.forEach(label => deleteLabelStmt.run(identifier, label)))();
+    },
+    
+    labels(): LabelSummary {
+      const count = (stmt: typeof countLabelsStmt) => Object.fromEntries((stmt.all() as any[]).map(row => [row.name, row.count]));
+      return {
+        nodes: count(countLabelsStmt),
+        edges: count(countEdgeTypesStmt)
+      };
+    },
+    
+    // Indexes
+    createIndex(key: string, options: IndexOptions = {}): string {
+      const target = options.target || 'nodes';
+      if (target !== 'nodes' && target !== 'edges') {
+        throw new ValidationError(`Invalid index target: ${target}`);
+      }
+      
+      // Expressions match what the query builders emit, so the planner can use them.
+      // Non-unique node indexes also carry the id, which is the sort tie-breaker.
+      const column = target === 'nodes' ? 'body' : 'properties';
+      const expression = `json_extract(${column}, ${jsonPath(key)})`;
+      const columns = target === 'nodes' && !options.unique ? `${expression}, id` : expression;
+      const name = indexName(target, key);
+      
+      try {
+        db.exec(`CREATE ${options.unique ? 'UNIQUE ' : ''}INDEX IF NOT EXISTS ${name} ON ${target}(${columns})`);
+      } catch (error: any) {
+        if (error.message?.includes('UNIQUE constraint failed')) {
+          throw new ConstraintError(`Existing data has duplicate values for '${key}'`);
+        }
+        throw error;
+      }
+      return name;
+    },
+    
+    dropIndex(key: string, options: IndexOptions = {}): void {
+      const name = indexName(options.target || 'nodes', key);
+      if (!graph.listIndexes().some(index => index.name === name)) {
+        throw new NotFoundError('Index not found');
+      }
+      db.exec(`DROP INDEX ${name}`);
+    },
+    
+    listIndexes(): IndexInfo[] {
+      const rows = listIndexesStmt.all() as any[];
+      
+      return rows.map(row => {
+        const path = /json_extract\((?:body|properties), '((?:[^']|'')*)'\)/.exec(row.sql);
+        return {
+          name: row.name,
+          target: row.tbl_name,
+          key: path ? keyFromPath(path[1]!.replace(/''/g, "'")) : '',
+          unique: /^CREATE UNIQUE/i.test(row.sql)
+        };
+      });
+    },
+    
+    // Constraints
+    createConstraint(key: string, options: ConstraintOptions): string {
+      if (options.kind !== 'unique' && options.kind !== 'required') {
+        throw new ValidationError(`Invalid constraint kind: ${options.kind}`);
+      }
+      
+      const where = options.where || {};
+      const name = constraintName(key, options);
+      const path = jsonPath(key);
+      const scope = buildScopeClause('body', where);
+      
+      const transaction = db.transaction(() => {
+        if (options.kind === 'unique') {
+          // Partial index so uniqueness only holds within the scope
+          db.exec(`CREATE UNIQUE INDEX IF NOT EXISTS ${name} ON nodes(json_extract(body, ${path})) WHERE ${scope}`);
+        } else {
+          const missing = db.prepare(`SELECT COUNT(*) AS count FROM nodes WHERE (${scope}) AND json_extract(body, ${path}) IS NULL`).get() as any;
+          if (missing.count > 0) {
+            throw new ConstraintError(`Existing nodes are missing required key '${key}'`);
+          }
+          const when = `(${buildScopeClause('NEW.body', where)}) AND json_extract(NEW.body, ${path}) IS NULL`;
+          for (const event of ['INSERT', 'UPDATE']) {
+            db.exec(`CREATE TRIGGER IF NOT EXISTS ${name}_${event.toLowerCase()} BEFORE ${event} ON nodes WHEN ${when} BEGIN SELECT RAISE(ABORT, 'constraint:${name}'); END`);
           }
-          insertEdgeStmt.run(src, tgt, validateJSON(props[i]));
         }
+        insertConstraintStmt.run(name, options.kind, key, JSON.stringify(where));
       });
       
       try {
-        transaction(sources, targets, properties);
+        transaction();
       } catch (error: any) {
-        if (error.message?.includes('FOREIGN KEY constraint failed')) {
-          throw new ConstraintError('Source or target node does not exist');
+        if (error.message?.includes('UNIQUE constraint failed')) {
+          throw new ConstraintError(`Existing data has duplicate values for '${key}'`);
         }
         throw error;
       }
+      return name;
     },
     
-    // Search and traversal
-    findNodes(query: SearchQuery, bindings?: any[]): object[] {
-      const sql = buildSearchQuery(query);
-      const stmt = db.prepare(sql);
+    dropConstraint(key: string, options: ConstraintOptions): void {
+      const name = constraintName(key, options);
+      const transaction = db.transaction(() => {
+        const result = deleteConstraintStmt.run(name);
+        if (result.changes === 0) {
+          throw new NotFoundError('Constraint not found');
+        }
+        if (options.kind === 'unique') {
+          db.exec(`DROP INDEX IF EXISTS ${name}`);
+        } else {
+          db.exec(`DROP TRIGGER IF EXISTS ${name}_insert`);
+          db.exec(`DROP TRIGGER IF EXISTS ${name}_update`);
+        }
+      });
+      transaction();
+    },
+    
+    listConstraints(): ConstraintInfo[] {
+      const rows = listConstraintsStmt.all() as any[];
+      return rows.map(row => ({
+        name: row.name,
+        kind: row.kind,
+        key: row.key,
+        where: parseJSON(row.scope) as Record<string, string | number | boolean>
+      }));
+    },
+    
+    // Schemas
+    registerNodeSchema(type: string, schema: JSONSchema | SchemaValidator, options: SchemaOptions = {}): void {
+      register(nodeSchemas, type, schema, options);
+    },
+    
+    registerEdgeSchema(type: string, schema: JSONSchema | SchemaValidator, options: SchemaOptions = {}): void {
+      register(edgeSchemas, type, schema, options);
+    },
+    
+    unregisterNodeSchema(type: string, options: SchemaOptions = {}): void {
+      unregister(nodeSchemas, type, options);
+    },
+    
+    unregisterEdgeSchema(type: string, options: SchemaOptions = {}): void {
+      unregister(edgeSchemas, type, options);
+    },
+    
+    // Import and export
+    exportGraph(format: GraphFormat | RenderFormat, options: ExportOptions = {}): string {
+      const ids = options.nodeIds ? JSON.stringify(options.nodeIds) : null;
+      const snapshot: GraphSnapshot = {
+        nodes: (exportNodesStmt.all(ids) as any[]).map(row => {
+          const body = parseJSON(row.body) as any;
+          const labels = graph.nodeLabels(body.id);
+          return labels.length > 0 ? { id: body.id, body, labels } : { id: body.id, body };
+        }),
+        edges: (exportEdgesStmt.all(ids) as any[]).map(toEdgeData)
+      };
+      if (format === 'dot' || format === 'mermaid') {
+        const data: GraphData[] = [
+          ...snapshot.nodes.map(node => ({ node: { identifier: storedId(node.id), body: node.body } })),
+          ...snapshot.edges.map(edge => ({ edge: edge as EdgeData }))
+        ];
+        return format === 'dot' ? toDot(data, options) : toMermaid(data, options);
+      }
+      return serializeGraph(snapshot, format);
+    },
+    
+    importGraph(data: string, format: GraphFormat, options: ImportOptions = {}): ImportResult {
+      const onConflict = conflictPolicy(options.onConflict);
+      const snapshot = parseGraph(data, format);
+      const result: ImportResult = {
+        nodes: { added: 0, updated: 0, skipped: 0 },
+        edges: { added: 0, updated: 0, skipped: 0 }
+      };
+      
+      return graph.transaction(() => {
+        for (const node of snapshot.nodes) {
+          result.nodes[writeNode(node.body, onConflict, node.labels)]++;
+        }
+        for (const edge of snapshot.edges) {
+          result.edges[writeEdge(edge, onConflict)]++;
+        }
+        return result;
+      });
+    },
+    
+    // Reads `other` through its public methods, so it may be any graph instance
+    mergeGraph(other: GraphDatabase<any, any>, options: MergeOptions = {}): ImportResult {
+      if (other === graph) {
+        throw new ValidationError('Cannot merge a graph into itself');
+      }
+      const onConflict = conflictPolicy(options.onConflict);
+      const result: ImportResult = {
+        nodes: { added: 0, updated: 0, skipped: 0 },
+        edges: { added: 0, updated: 0, skipped: 0 }
+      };
       
-      // Use provided bindings for the query
-      const results = (bindings ? stmt.all(...bindings) : stmt.all()) as any[];
+      let nodes: Iterable<any> = other.iterateNodes();
+      let edges: Iterable<EdgeData> = other.iterateEdges();
+      if (options.nodeIds) {
+        const ids = new Set<string | number>(options.nodeIds.map(storedId));
+        const seen = new Set<string>();
+        nodes = [...ids].map(id => other.findNode(id)).filter(node => node !== null);
+        edges = [...ids].flatMap(id => other.connectionsOut(id)).filter(edge => {
+          if (seen.has(edge.id) || !ids.has(edge.target)) return false;
+          seen.add(edge.id);
+          return true;
+        });
+      }
       
-      return results.map(row => {
-        if (query.resultColumn === 'id') {
-          return { id: row.id };
+      return graph.transaction(() => {
+        for (const node of nodes) {
+          result.nodes[writeNode(node, onConflict, other.nodeLabels(node.id))]++;
         }
-        return parseJSON(row.body);
+        for (const edge of edges) {
+          result.edges[writeEdge(edge, onConflict)]++;
+        }
+        return result;
       });
     },
     
-    traverse(sourceId: string | number, config: TraversalConfig): GraphData[] {
-      const sql = buildTraversalQuery(config);
-      const stmt = db.prepare(sql);
-      const results = stmt.all(sourceId) as any[];
-      
-      if (config.withBodies) {
-        return results.map(row => {
-          if (row.y === '()') {
-            return {
-              node: {
-                identifier: row.x,
-                body: parseJSON(row.obj)
-              }
-            };
-          } else {
-            // It's an edge - use the actual source and target from the query
-            const edge: EdgeData = {
-              source: row.src,
-              target: row.tgt,
-              properties: row.obj ? parseJSON(row.obj) : {}
-            };
-            return { edge };
-          }
+    extractSubgraph(seedIds: (string | number)[], options: SubgraphOptions = {}): GraphDatabase<any, any> {
+      const direction = options.direction || 'outbound';
+      if (direction !== 'inbound' && direction !== 'outbound' && direction !== 'both') {
+        throw new ValidationError(`Invalid direction: ${direction}`);
+      }
+      const ids = new Set<string | number>();
+      for (const seed of seedIds) {
+        if (!nodeExistsStmt.get(seed)) {
+          throw new NotFoundError(`Node not found: ${seed}`);
+        }
+        const reached = graph.iterateTraversal(seed, {
+          inbound: direction !== 'outbound',
+          outbound: direction !== 'inbound',
+          maxDepth: options.depth
         });
+        for (const item of reached) {
+          ids.add(item.node!.identifier);
+        }
+      }
+      
+      const target = options.into === undefined || typeof options.into === 'string' ? createGraph(options.into) : options.into;
+      target.mergeGraph(graph, { nodeIds: [...ids], onConflict: options.onConflict });
+      return target;
+    },
+    
+    loadNodes(source: ReadableStream<Uint8Array> | string, options: LoadOptions = {}): Promise<LoadReport> {
+      return load(source, options, (row, onConflict) => writeNode(row, onConflict));
+    },
+    
+    loadEdges(source: ReadableStream<Uint8Array> | string, options: LoadOptions = {}): Promise<LoadReport> {
+      return load(source, options, (row, onConflict) => {
+        // Rows either nest properties or carry them as extra keys (CSV columns)
+        // A `type` key or column is the edge type; an empty CSV cell means none
+        const { id, source, target, type, properties, ...rest } = row as any;
+        if (source === undefined || target === undefined) {
+          throw new ValidationError('Source and target IDs are required');
+        }
+        return writeEdge({
+          id: id === undefined ? undefined : String(id),
+          source,
+          target,
+          properties: properties && typeof properties === 'object' ? properties : rest,
+          type: type === undefined || type === null || type === '' ? undefined : String(type)
+        }, onConflict);
+      });
+    },
+    
+    // Change events
+    enableChangeLog(): void {
+      if (!triggerExistsStmt.get('changes_node_insert')) {
+        db.transaction(() => db.exec(changesSQL))();
+      }
+    },
+    
+    // Logged changes are kept until pruned
+    disableChangeLog(): void {
+      for (const name of CHANGE_TRIGGERS) {
+        db.exec(`DROP TRIGGER IF EXISTS ${name}`);
+      }
+    },
+    
+    on(type: ChangeType, handler: (event: ChangeEvent) => void, options: ListenerOptions = {}): () => void {
+      if (!CHANGE_TYPES.includes(type)) {
+        throw new ValidationError(`Invalid change type: ${type}`);
+      }
+      if (!triggerExistsStmt.get('changes_node_insert')) {
+        throw new ValidationError('The change log is not enabled');
+      }
+      if (listeners.size === 0) {
+        // Nothing was delivered while unsubscribed; start from the current end of the log
+        const last = lastChangeStmt.get() as any;
+        emittedSeq = last.seq;
+      }
+      const handlers = listeners.get(type) || new Map();
+      handlers.set(handler, options);
+      listeners.set(type, handlers);
+      return () => graph.off(type, handler);
+    },
+    
+    off(type: ChangeType, handler: (event: ChangeEvent) => void): void {
+      const handlers = listeners.get(type);
+      if (handlers?.delete(handler) && handlers.size === 0) {
+        listeners.delete(type);
+      }
+    },
+    
+    changesSince(seq: number, limit?: number): ChangeEvent[] {
+      if (limit !== undefined && (!Number.isInteger(limit) || limit < 0)) {
+        throw new ValidationError('limit must be a non-negative integer');
+      }
+      return (changesSinceStmt.all(seq, limit ?? -1) as any[]).map(toChangeEvent);
+    },
+    
+    pruneChanges(throughSeq: number): number {
+      return pruneChangesStmt.run(throughSeq).changes;
+    },
+    
+    // History
+    enableHistory(): void {
+      if (!triggerExistsStmt.get('history_node_insert')) {
+        db.transaction(() => db.exec(historySQL))();
+      }
+    },
+    
+    disableHistory(): void {
+      for (const name of HISTORY_TRIGGERS) {
+        db.exec(`DROP TRIGGER IF EXISTS ${name}`);
+      }
+    },
+    
+    nodeHistory(identifier: string | number): NodeVersion[] {
+      const rows = nodeVersionsStmt.all(identifier) as any[];
+      return rows.map(row => ({
+        version: row.version,
+        body: row.body === null ? null : parseJSON(row.body),
+        timestamp: row.valid_from
+      }));
+    },
+    
+    edgeHistory(identifier: string | number): EdgeVersion[] {
+      const rows = edgeVersionsStmt.all(identifier) as any[];
+      return rows.map(row => ({
+        version: row.version,
+        edge: row.removed ? null : toEdgeData(row),
+        timestamp: row.valid_from
+      }));
+    },
+    
+    revertNode(identifier: string | number, version: number): void {
+      const target = graph.nodeHistory(identifier).find(entry => entry.version === version);
+      if (!target) {
+        throw new NotFoundError(`Version ${version} of node ${identifier} not found`);
+      }
+      if (target.body === null) {
+        throw new ValidationError(`Version ${version} of node ${identifier} records its removal`);
+      }
+      // Reverting writes a new version, so history stays append-only
+      if (nodeExistsStmt.get(identifier)) {
+        graph.updateNodeBody(identifier, target.body);
       } else {
-        return results.map(row => ({
-          node: {
-            identifier: row.x,
-            body: {}
+        graph.addNode(target.body);
+      }
+    },
+    
+    asOf(timestamp: Date | string | number): GraphView<any, any> {
+      const date = new Date(timestamp);
+      if (Number.isNaN(date.getTime())) {
+        throw new ValidationError(`Invalid timestamp: ${timestamp}`);
+      }
+      return historyView(date.toISOString());
+    },
+    
+    // Full-text search
+    enableTextSearch(fields: string[]): void {
+      if (!Array.isArray(fields) || fields.length === 0) {
+        throw new ValidationError('Text search needs at least one field');
+      }
+      fields.forEach(field => jsonPath(field));
+      if (new Set(fields).size !== fields.length) {
+        throw new ValidationError('Text search fields must be unique');
+      }
+      
+      // Changing the fields rebuilds the index from the current nodes
+      db.transaction(() => {
+        graph.disableTextSearch();
+        db.exec(buildTextSearchSQL(fields));
+      })();
+    },
+    
+    disableTextSearch(): void {
+      for (const name of TEXT_SEARCH_TRIGGERS) {
+        db.exec(`DROP TRIGGER IF EXISTS ${name}`);
+      }
+      db.exec(dropTextSearchSQL);
+    },
+    
+    textSearchFields(): string[] {
+      return (textSearchFieldsStmt.all() as any[]).map(column => column.name);
+    },
+    
+    searchText(text: string, options: TextSearchOptions = {}): TextSearchResult[] {
+      const indexed = graph.textSearchFields();
+      if (indexed.length === 0) {
+        throw new ValidationError('Text search is not enabled');
+      }
+      if (typeof text !== 'string' || text.trim() === '') {
+        throw new ValidationError('Search text must be a non-empty string');
+      }
+      const fields = options.fields || indexed;
+      const unknown = fields.find(field => !indexed.includes(field));
+      if (unknown !== undefined || fields.length === 0) {
+        throw new ValidationError(`Field is not indexed for text search: ${unknown ?? '(none)'}`);
+      }
+      
+      const [open, close] = options.highlight || ['<b>', '</b>'];
+      const snippetLength = options.snippetLength ?? 16;
+      if (!Number.isInteger(snippetLength) || snippetLength < 1 || snippetLength > 64) {
+        throw new ValidationError('snippetLength must be an integer from 1 to 64');
+      }
+      
+      validateTextQuery(text);
+      
+      // A column filter restricts both matching and snippets to the requested fields
+      const match = options.fields ? `{${fields.map(field => `"${field}"`).join(' ')}} : (${text})` : text;
+      const highlights = fields.map((field, i) => `highlight(nodes_fts, ${indexed.indexOf(field)}, ?, ?) AS h${i}`);
+      const bindings: any[] = [open, close, ...fields.flatMap(() => [open, close]), match];
+      let sql = `SELECT nodes.body, bm25(nodes_fts) AS rank, snippet(nodes_fts, -1, ?, ?, '…', ${snippetLength}) AS snippet, ${highlights.join(', ')}
+FROM nodes_fts JOIN nodes_fts_ids i ON i.docid = nodes_fts.rowid JOIN nodes ON nodes.id = i.id
+WHERE nodes_fts MATCH ?`;
+      
+      if (options.where) {
+        const search = options.where instanceof NodeQuery ? options.where.toSearchQuery() : options.where;
+        const filterBindings = options.bindings ? [...options.bindings] : [];
+        const filter = buildSearchQuery({
+          ...search,
+          resultColumn: 'id',
+          orderBy: undefined,
+          limit: undefined,
+          offset: undefined,
+          after: undefined
+        }, filterBindings);
+        sql += ` AND nodes.id IN (${filter})`;
+        bindings.push(...filterBindings);
+      }
+      
+      sql += ' ORDER BY rank, nodes.id';
+      for (const [name, value] of [['limit', options.limit], ['offset', options.offset]] as const) {
+        if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+          throw new ValidationError(`${name} must be a non-negative integer`);
+        }
+      }
+      if (options.limit !== undefined || options.offset !== undefined) {
+        sql += ` LIMIT ${options.limit ?? -1} OFFSET ${options.offset ?? 0}`;
+      }
+      
+      let rows: any[];
+      try {
+        rows = db.prepare(sql).all(...bindings) as any[];
+      } catch (error: any) {
+        // FTS5 reports query syntax errors when the statement runs
+        if (/^fts5:|unterminated string/.test(error.message ?? '')) {
+          throw new ValidationError(`Invalid search query: ${error.message}`);
+        }
+        throw error;
+      }
+      
+      return rows.map(row => ({
+        node: parseJSON(row.body),
+        score: -row.rank,
+        snippet: row.snippet ?? '',
+        highlights: Object.fromEntries(fields.flatMap((field, i) => row[`h${i}`] === null ? [] : [[field, row[`h${i}`]]]))
+      }));
+    },
+    
+    // Embeddings
+    setNodeEmbedding(identifier: string | number, vector: Float32Array | number[]): void {
+      const values = checkVector(vector);
+      if (!nodeExistsStmt.get(identifier)) {
+        throw new NotFoundError('Node not found');
+      }
+      // All embeddings share one dimension, so any two can be compared
+      const other = otherEmbeddingStmt.get(identifier) as any;
+      if (other && other.bytes !== values.byteLength) {
+        throw new ValidationError(`Embedding has ${values.length} dimensions, expected ${other.bytes / 4}`);
+      }
+      upsertEmbeddingStmt.run(identifier, toBlob(values));
+    },
+    
+    getNodeEmbedding(identifier: string | number): Float32Array | null {
+      const row = nodeEmbeddingStmt.get(identifier) as any;
+      return row ? fromBlob(row.vector) : null;
+    },
+    
+    removeNodeEmbedding(identifier: string | number): void {
+      const result = deleteEmbeddingStmt.run(identifier);
+      if (result.changes === 0) {
+        throw new NotFoundError('Embedding not found');
+      }
+    },
+    
+    nearestNodes(vector: Float32Array | number[], options: NearestOptions = {}): NearestNode[] {
+      const query = checkVector(vector);
+      const k = options.k ?? 10;
+      const metric = options.metric || 'cosine';
+      if (!Number.isInteger(k) || k < 1) {
+        throw new ValidationError('k must be a positive integer');
+      }
+      if (metric !== 'cosine' && metric !== 'dot' && metric !== 'l2') {
+        throw new ValidationError(`Invalid metric: ${metric}`);
+      }
+      
+      const bindings: any[] = [];
+      let sql = 'SELECT id, vector FROM node_embeddings';
+      if (options.filter) {
+        const search = options.filter instanceof NodeQuery ? options.filter.toSearchQuery() : options.filter;
+        bindings.push(...(options.bindings || []));
+        sql += ` WHERE id IN (${buildSearchQuery({
+          ...search,
+          resultColumn: 'id',
+          orderBy: undefined,
+          limit: undefined,
+          offset: undefined,
+          after: undefined
+        }, bindings)})`;
+      }
+      
+      // Exact scan keeping the k closest; the queue's head is the worst of them
+      const closeness = (value: number) => metric === 'l2' ? -value : value;
+      const best = new MinQueue<{ id: string; score: number }>();
+      for (const row of db.prepare(sql).iterate(...bindings) as Iterable<any>) {
+        const candidate = fromBlob(row.vector);
+        if (candidate.length !== query.length) {
+          throw new ValidationError(`Query has ${query.length} dimensions, embeddings have ${candidate.length}`);
+        }
+        const value = score(metric, query, candidate);
+        best.push({ id: row.id, score: value }, closeness(value));
+        if (best.size > k) best.pop();
+      }
+      
+      const hits: { id: string; score: number }[] = [];
+      while (best.size > 0) hits.unshift(best.pop()!);
+      return hits.map(hit => ({ node: graph.findNode(hit.id)!, score: hit.score }));
+    },
+    
+    expandNearest(vector: Float32Array | number[], options: NearestOptions & { traversal?: TraversalConfig } = {}): NearestExpansion {
+      const { traversal = { withBodies: true, inbound: true, outbound: true, maxDepth: 1 }, ...nearest } = options;
+      const hits = graph.nearestNodes(vector, nearest);
+      const seen = new Set<string>();
+      const context: GraphData[] = [];
+      for (const hit of hits) {
+        for (const item of graph.traverse((hit.node as any).id, traversal)) {
+          const key = item.edge ? `e:${item.edge.id}` : `n:${item.node!.identifier}`;
+          if (!seen.has(key)) {
+            seen.add(key);
+            context.push(item);
           }
-        }));
+        }
+      }
+      return { hits, context };
+    },
+    
+    // Search and traversal
+    findNodes(query: SearchQuery | NodeQuery, bindings?: any[]): any[] {
+      const search = prepareSearch(query, bindings);
+      return (search.stmt.all(...search.bindings) as any[]).map(search.toResult);
+    },
+    
+    *iterateNodes(query: SearchQuery | NodeQuery = {}, bindings?: any[]): Generator<any> {
+      const search = prepareSearch(query, bindings);
+      for (const row of search.stmt.iterate(...search.bindings)) {
+        yield search.toResult(row);
       }
+    },
+    
+    countNodes(query: SearchQuery | NodeQuery = {}, bindings?: any[]): number {
+      return countMatching(query, bindings);
+    },
+    
+    query(): NodeQuery {
+      return new NodeQuery(graph);
+    },
+    
+    traverse(sourceId: string | number, config: TraversalConfig): GraphData[] {
+      return [...traversalRows(sourceId, config)];
+    },
+    
+    iterateTraversal(sourceId: string | number, config: TraversalConfig): Generator<GraphData> {
+      return traversalRows(sourceId, config);
+    },
+    
+    shortestPath(sourceId: string | number, targetId: string | number, config: PathConfig = {}): PathData | null {
+      validateMaxDepth(config.maxDepth);
+      const source = nodeExistsStmt.get(sourceId) as { id: string } | null;
+      if (!source) {
+        return null;
+      }
+      
+      interface PathStep {
+        id: string | number;
+        cost: number;
+        hops: number;
+        prev?: PathStep;
+        edge?: EdgeData;
+      }
+      
+      // Dijkstra over edge weights; with no weight every edge costs 1 and this is a BFS.
+      // When maxDepth is set the same node may be settled once per hop count.
+      const bounded = config.maxDepth !== undefined;
+      // Seeded with the stored id, so every step carries the text ids edges use
+      const stepKey = (step: PathStep) => (bounded ? `${step.hops}:` : '') + step.id;
+      const settled = new Set<string>();
+      const queue = new MinQueue<PathStep>();
+      queue.push({ id: source.id, cost: 0, hops: 0 }, 0);
+      
+      while (queue.size > 0) {
+        const step = queue.pop()!;
+        const key = stepKey(step);
+        if (settled.has(key)) continue;
+        settled.add(key);
+        
+        if (step.id === storedId(targetId)) {
+          const cache = new Map<string, NodeData>();
+          const nodes: NodeData[] = [];
+          const edges: EdgeData[] = [];
+          for (let current: PathStep | undefined = step; current; current = current.prev) {
+            nodes.unshift(toNodeData(current.id, cache));
+            if (current.edge) edges.unshift(current.edge);
+          }
+          return { nodes, edges, cost: step.cost };
+        }
+        
+        if (bounded && step.hops >= config.maxDepth!) continue;
+        
+        for (const { edge, next } of neighbours(step.id, config.direction)) {
+          const cost = step.cost + edgeWeight(edge, config.weight);
+          queue.push({ id: next, cost, hops: step.hops + 1, prev: step, edge }, cost);
+        }
+      }
+      
+      return null;
+    },
+    
+    allPaths(sourceId: string | number, targetId: string | number, config: PathConfig = {}): PathData[] {
+      const sql = buildPathQuery(config);
+      const stmt = db.prepare(sql);
+      const results = stmt.all(sourceId, targetId) as any[];
+      
+      const cache = new Map<string, NodeData>();
+      const paths = results.map(row => {
+        const ids = JSON.parse(row.visited) as (string | number)[];
+        const edgeIds = JSON.parse(row.trail) as string[];
+        const edges = edgeIds.map(id => toEdgeData(searchEdgeStmt.get(id)));
+        return {
+          nodes: ids.map(id => toNodeData(id, cache)),
+          edges,
+          cost: edges.reduce((sum, edge) => sum + edgeWeight(edge, config.weight), 0)
+        };
+      });
+      
+      if (config.weight) {
+        paths.sort((a, b) => a.cost - b.cost);
+      }
+      return paths;
+    },
+    
+    match(pattern: string, params: Record<string, unknown> = {}): Record<string, any>[] {
+      const { sql, bindings, columns } = compilePattern(pattern, params);
+      const rows = db.prepare(sql).values(...bindings) as (string | null)[][];
+      return rows.map(row => Object.fromEntries(columns.map((column, i) => {
+        const value = row[i];
+        return [column, value === null || value === undefined ? null : JSON.parse(value)];
+      })));
     }
   };
   
+  // Deliver change events after every write method returns
+  for (const name of WRITE_METHODS) {
+    const method = graph[name] as (...args: any[]) => any;
+    (graph as any)[name] = (...args: any[]) => {
+      try {
+        return method(...args);
+      } finally {
+        emitChanges();
+      }
+    };
+  }
+  
   return graph;
 }
 
 // Default export
-export default { createGraph };
+export default { createGraph, query, toDot, toMermaid, algorithms, diffGraphs };
@@ -0,0 +1,151 @@
+// Streaming readers for NDJSON and CSV node and edge files
+
+export type LoadFormat = 'ndjson' | 'csv';
+
+/** One parsed row, or the reason it could not be parsed. `line` is where the row starts (1-based). */
+export interface LoadRecord {
+  line: number;
+  value?: Record<string, unknown>;
+  error?: string;
+}
+
+export function sourceStream(source: ReadableStream<Uint8Array> | string): ReadableStream<Uint8Array> {
+  return typeof source === 'string' ? Bun.file(source).stream() : source;
+}
+
+// Files ending in .csv are CSV; everything else defaults to NDJSON
+export function inferFormat(source: ReadableStream<Uint8Array> | string): LoadFormat {
+  return typeof source === 'string' && source.toLowerCase().endsWith('.csv') ? 'csv' : 'ndjson';
+}
+
+export function readRecords(stream: ReadableStream<Uint8Array>, format: LoadFormat): AsyncGenerator<LoadRecord> {
+  return format === 'csv' ? csvRecords(lines(stream)) : ndjsonRecords(lines(stream));
+}
+
+async function* lines(stream: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let first = true;
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+      if (first && buffer.length > 0) {
+        buffer = buffer.replace(/^\uFEFF/, '');
+        first = false;
+      }
+
+      let newline;
+      while ((newline = buffer.indexOf('\n')) !== -1) {
+        yield buffer.slice(0, newline).replace(/\r$/, '');
+        buffer = buffer.slice(newline + 1);
+      }
+
+      if (done) {
+        if (buffer.length > 0) {
+          yield buffer.replace(/\r$/, '');
+        }
+        return;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+async function* ndjsonRecords(source: AsyncGenerator<string>): AsyncGenerator<LoadRecord> {
+  let line = 0;
+  for await (const text of source) {
+    line++;
+    if (text.trim() === '') continue;
+    try {
+      const value = JSON.parse(text);
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        yield { line, error: 'Row must be a JSON object' };
+      } else {
+        yield { line, value };
+      }
+    } catch {
+      yield { line, error: 'Invalid JSON' };
+    }
+  }
+}
+
+// RFC 4180: the first record is the header, quoted fields may contain delimiters, quotes ("")
+// and newlines. Unquoted cells holding JSON (numbers, booleans, null, arrays, objects) are
+// parsed; quoted and other cells stay strings, and empty cells are left out.
+async function* csvRecords(source: AsyncGenerator<string>): AsyncGenerator<LoadRecord> {
+  let header: string[] | null = null;
+  let line = 0;
+  let start = 0;
+  let fields: { text: string; quoted: boolean }[] = [];
+  let field = { text: '', quoted: false };
+  let inQuotes = false;
+
+  for await (const text of source) {
+    line++;
+    if (!inQuotes) {
+      start = line;
+      if (text.trim() === '') continue;
+    } else {
+      field.text += '\n';
+    }
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (inQuotes) {
+        if (char === '"' && text[i + 1] === '"') {
+          field.text += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          field.text += char;
+        }
+      } else if (char === '"' && field.text === '') {
+        inQuotes = true;
+        field.quoted = true;
+      } else if (char === ',') {
+        fields.push(field);
+        field = { text: '', quoted: false };
+      } else {
+        field.text += char;
+      }
+    }
+    if (inQuotes) continue;
+
+    fields.push(field);
+    const row = fields;
+    fields = [];
+    field = { text: '', quoted: false };
+
+    if (!header) {
+      header = row.map(cell => cell.text.trim());
+      continue;
+    }
+    if (row.length !== header.length) {
+      yield { line: start, error: `Expected ${header.length} columns, got ${row.length}` };
+      continue;
+    }
+    const value: Record<string, unknown> = {};
+    row.forEach((cell, i) => {
+      if (cell.text !== '' || cell.quoted) {
+        value[header![i]!] = cell.quoted ? cell.text : parseCell(cell.text);
+      }
+    });
+    yield { line: start, value };
+  }
+
+  if (inQuotes) {
+    yield { line: start, error: 'Unterminated quoted field' };
+  }
+}
+
+function parseCell(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
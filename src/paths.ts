@@ -0,0 +1,32 @@
+// JSON paths for dot-separated body and property keys
+import { ValidationError } from "./errors";
+
+// Turn a dot-separated body key into a quoted SQL string literal holding a JSON path.
+// Plain identifiers are emitted as-is so the expression matches hand-written paths.
+export function jsonPath(key: string): string {
+  if (typeof key !== 'string' || key.length === 0) {
+    throw new ValidationError('Key must be a non-empty string');
+  }
+  
+  let path = '$';
+  for (const segment of key.split('.')) {
+    if (/^[A-Za-z_][A-Za-z0-9_]*$/.test(segment)) {
+      path += '.' + segment;
+    } else if (segment.length > 0 && !segment.includes('"')) {
+      path += '."' + segment + '"';
+    } else {
+      throw new ValidationError(`Invalid key: ${key}`);
+    }
+  }
+  
+  return `'${path.replace(/'/g, "''")}'`;
+}
+
+// Inverse of jsonPath for paths it produced
+export function keyFromPath(path: string): string {
+  const segments: string[] = [];
+  for (const match of path.matchAll(/\.(?:"([^"]*)"|([A-Za-z_][A-Za-z0-9_]*))/g)) {
+    segments.push(match[1] ?? match[2]!);
+  }
+  return segments.join('.');
+}
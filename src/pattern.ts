@@ -0,0 +1,655 @@
+// Cypher-like pattern matching, compiled to SQL over the nodes and edges tables
+import { ValidationError } from "./errors";
+import { jsonPath } from "./paths";
+
+// Syntax tree
+type Operand =
+  | { kind: 'variable'; name: string }
+  | { kind: 'property'; variable: string; key: string }
+  | { kind: 'literal'; value: string | number | boolean | null }
+  | { kind: 'param'; name: string }
+  | { kind: 'list'; items: Operand[] };
+
+type Expression =
+  | { kind: 'and' | 'or'; left: Expression; right: Expression }
+  | { kind: 'not'; operand: Expression }
+  | { kind: 'compare'; operator: string; left: Operand; right: Operand }
+  | { kind: 'null'; operand: Operand; negated: boolean };
+
+interface NodePattern {
+  type: 'node';
+  variable?: string;
+  /** The node must carry all of these */
+  labels: string[];
+  properties: [string, Operand][];
+}
+
+interface RelationshipPattern {
+  type: 'relationship';
+  variable?: string;
+  /** The edge must have one of these types */
+  types: string[];
+  properties: [string, Operand][];
+  direction: 'outbound' | 'inbound' | 'both';
+  /** Set for variable-length relationships (`*`, `*2`, `*1..3`) */
+  hops?: { min: number; max?: number };
+}
+
+interface ReturnItem {
+  operand: Operand;
+  name: string;
+}
+
+interface PatternQuery {
+  paths: (NodePattern | RelationshipPattern)[][];
+  where?: Expression;
+  distinct: boolean;
+  returns: ReturnItem[];
+  orderBy: { operand: Operand; descending: boolean }[];
+  skip?: Operand;
+  limit?: Operand;
+}
+
+// Tokenizer
+interface Token {
+  type: 'identifier' | 'string' | 'number' | 'param' | 'symbol' | 'end';
+  value: string;
+  position: number;
+}
+
+const SYMBOLS = ['..', '<=', '>=', '<>', '!=', '(', ')', '[', ']', '{', '}', ':', ',', '.', '*', '|', '-', '<', '>', '='];
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i]!;
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    const position = i;
+    if (char === "'" || char === '"') {
+      let value = '';
+      i++;
+      while (i < text.length && text[i] !== char) {
+        if (text[i] === '\\' && i + 1 < text.length) {
+          const escaped = text[++i]!;
+          value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+        } else {
+          value += text[i];
+        }
+        i++;
+      }
+      if (i >= text.length) {
+        throw new ValidationError(`Unterminated string at position ${position}`);
+      }
+      i++;
+      tokens.push({ type: 'string', value, position });
+    } else if (char === '`') {
+      const end = text.indexOf('`', i + 1);
+      if (end === -1) {
+        throw new ValidationError(`Unterminated identifier at position ${position}`);
+      }
+      tokens.push({ type: 'identifier', value: text.slice(i + 1, end), position });
+      i = end + 1;
+    } else if (/[0-9]/.test(char)) {
+      const match = /^\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/.exec(text.slice(i))!;
+      tokens.push({ type: 'number', value: match[0], position });
+      i += match[0].length;
+    } else if (char === '$' || /[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(text.slice(char === '$' ? i + 1 : i));
+      if (!match) {
+        throw new ValidationError(`Expected a parameter name at position ${position}`);
+      }
+      tokens.push({ type: char === '$' ? 'param' : 'identifier', value: match[0], position });
+      i += match[0].length + (char === '$' ? 1 : 0);
+    } else {
+      const symbol = SYMBOLS.find(candidate => text.startsWith(candidate, i));
+      if (!symbol) {
+        throw new ValidationError(`Unexpected '${char}' at position ${position}`);
+      }
+      tokens.push({ type: 'symbol', value: symbol, position });
+      i += symbol.length;
+    }
+  }
+  tokens.push({ type: 'end', value: '', position: text.length });
+  return tokens;
+}
+
+// Recursive descent parser
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): PatternQuery {
+    this.keyword('MATCH');
+    const paths = [this.path()];
+    while (this.symbol(',')) {
+      paths.push(this.path());
+    }
+
+    const where = this.keyword('WHERE') ? this.expression() : undefined;
+
+    this.expectKeyword('RETURN');
+    const distinct = this.keyword('DISTINCT');
+    const returns = [this.returnItem()];
+    while (this.symbol(',')) {
+      returns.push(this.returnItem());
+    }
+
+    const orderBy: PatternQuery['orderBy'] = [];
+    if (this.keyword('ORDER')) {
+      this.expectKeyword('BY');
+      do {
+        const operand = this.operand();
+        const descending = this.keyword('DESC');
+        if (!descending) this.keyword('ASC');
+        orderBy.push({ operand, descending });
+      } while (this.symbol(','));
+    }
+    const skip = this.keyword('SKIP') ? this.operand() : undefined;
+    const limit = this.keyword('LIMIT') ? this.operand() : undefined;
+
+    if (this.peek().type !== 'end') {
+      this.fail('end of query');
+    }
+    return { paths, where, distinct, returns, orderBy, skip, limit };
+  }
+
+  private path(): (NodePattern | RelationshipPattern)[] {
+    const path: (NodePattern | RelationshipPattern)[] = [this.node()];
+    while (this.isSymbol('-') || this.isSymbol('<')) {
+      path.push(this.relationship(), this.node());
+    }
+    return path;
+  }
+
+  private node(): NodePattern {
+    this.expectSymbol('(');
+    const variable = this.peek().type === 'identifier' ? this.next().value : undefined;
+    const labels: string[] = [];
+    while (this.symbol(':')) {
+      labels.push(this.name('a label'));
+    }
+    const properties = this.isSymbol('{') ? this.properties() : [];
+    this.expectSymbol(')');
+    return { type: 'node', variable, labels, properties };
+  }
+
+  // -[...]->, <-[...]-, -[...]- and the bare forms -->, <--, --
+  private relationship(): RelationshipPattern {
+    const inbound = this.symbol('<');
+    this.expectSymbol('-');
+    let variable: string | undefined;
+    const types: string[] = [];
+    let properties: [string, Operand][] = [];
+    let hops: RelationshipPattern['hops'];
+    if (this.symbol('[')) {
+      variable = this.peek().type === 'identifier' ? this.next().value : undefined;
+      if (this.symbol(':')) {
+        do {
+          types.push(this.name('an edge type'));
+        } while (this.symbol('|'));
+      }
+      if (this.symbol('*')) {
+        hops = this.hops();
+      }
+      properties = this.isSymbol('{') ? this.properties() : [];
+      this.expectSymbol(']');
+    }
+    this.expectSymbol('-');
+    const outbound = this.symbol('>');
+    if (inbound && outbound) {
+      this.fail('a single direction');
+    }
+    if (hops && variable) {
+      throw new ValidationError('Variable-length relationships cannot be named');
+    }
+    return { type: 'relationship', variable, types, properties, direction: inbound ? 'inbound' : outbound ? 'outbound' : 'both', hops };
+  }
+
+  // After `*`: nothing (1 or more), `n` (exactly n), `n..`, `..m` or `n..m`
+  private hops(): { min: number; max?: number } {
+    const min = this.peek().type === 'number' ? this.integer() : undefined;
+    if (!this.symbol('..')) {
+      return min === undefined ? { min: 1 } : this.checkHops(min, min);
+    }
+    const max = this.peek().type === 'number' ? this.integer() : undefined;
+    return this.checkHops(min ?? 1, max);
+  }
+
+  private checkHops(min: number, max?: number): { min: number; max?: number } {
+    if (min < 1 || (max !== undefined && max < min)) {
+      throw new ValidationError(`Invalid hop range ${min}..${max ?? ''}`);
+    }
+    return { min, max };
+  }
+
+  private name(expected: string): string {
+    const token = this.next();
+    if (token.type !== 'identifier' && token.type !== 'string') {
+      this.fail(expected, token);
+    }
+    return token.value;
+  }
+
+  private integer(): number {
+    const token = this.next();
+    if (!/^\d+$/.test(token.value)) {
+      this.fail('an integer', token);
+    }
+    return Number(token.value);
+  }
+
+  private properties(): [string, Operand][] {
+    this.expectSymbol('{');
+    const properties: [string, Operand][] = [];
+    if (!this.isSymbol('}')) {
+      do {
+        const key = this.next();
+        if (key.type !== 'identifier' && key.type !== 'string') {
+          this.fail('a property name', key);
+        }
+        this.expectSymbol(':');
+        properties.push([key.value, this.value()]);
+      } while (this.symbol(','));
+    }
+    this.expectSymbol('}');
+    return properties;
+  }
+
+  private returnItem(): ReturnItem {
+    const operand = this.operand();
+    if (operand.kind !== 'variable' && operand.kind !== 'property') {
+      this.fail('a variable or property to return');
+    }
+    const name = operand.kind === 'variable' ? operand.name : `${operand.variable}.${operand.key}`;
+    if (this.keyword('AS')) {
+      const alias = this.next();
+      if (alias.type !== 'identifier') {
+        this.fail('an alias', alias);
+      }
+      return { operand, name: alias.value };
+    }
+    return { operand, name };
+  }
+
+  private expression(): Expression {
+    let left = this.conjunction();
+    while (this.keyword('OR')) {
+      left = { kind: 'or', left, right: this.conjunction() };
+    }
+    return left;
+  }
+
+  private conjunction(): Expression {
+    let left = this.negation();
+    while (this.keyword('AND')) {
+      left = { kind: 'and', left, right: this.negation() };
+    }
+    return left;
+  }
+
+  private negation(): Expression {
+    if (this.keyword('NOT')) {
+      return { kind: 'not', operand: this.negation() };
+    }
+    return this.comparison();
+  }
+
+  private comparison(): Expression {
+    if (this.isSymbol('(')) {
+      this.next();
+      const inner = this.expression();
+      this.expectSymbol(')');
+      return inner;
+    }
+
+    const left = this.operand();
+    if (this.keyword('IS')) {
+      const negated = this.keyword('NOT');
+      this.expectKeyword('NULL');
+      return { kind: 'null', operand: left, negated };
+    }
+    if (this.keyword('IN')) {
+      return { kind: 'compare', operator: 'IN', left, right: this.operand() };
+    }
+    if (this.keyword('CONTAINS')) {
+      return { kind: 'compare', operator: 'CONTAINS', left, right: this.operand() };
+    }
+    for (const word of ['STARTS', 'ENDS']) {
+      if (this.keyword(word)) {
+        this.expectKeyword('WITH');
+        return { kind: 'compare', operator: word, left, right: this.operand() };
+      }
+    }
+    const operator = this.next();
+    if (operator.type !== 'symbol' || !['=', '<>', '!=', '<', '<=', '>', '>='].includes(operator.value)) {
+      this.fail('a comparison operator', operator);
+    }
+    return { kind: 'compare', operator: operator.value === '!=' ? '<>' : operator.value, left, right: this.operand() };
+  }
+
+  private operand(): Operand {
+    const token = this.peek();
+    if (token.type === 'identifier' && !['true', 'false', 'null'].includes(token.value.toLowerCase())) {
+      this.next();
+      const segments: string[] = [];
+      while (this.symbol('.')) {
+        const segment = this.next();
+        if (segment.type !== 'identifier') {
+          this.fail('a property name', segment);
+        }
+        segments.push(segment.value);
+      }
+      return segments.length > 0
+        ? { kind: 'property', variable: token.value, key: segments.join('.') }
+        : { kind: 'variable', name: token.value };
+    }
+    return this.value();
+  }
+
+  private value(): Operand {
+    const token = this.next();
+    if (token.type === 'string') {
+      return { kind: 'literal', value: token.value };
+    }
+    if (token.type === 'number') {
+      return { kind: 'literal', value: Number(token.value) };
+    }
+    if (token.type === 'param') {
+      return { kind: 'param', name: token.value };
+    }
+    if (token.type === 'symbol' && token.value === '-' && this.peek().type === 'number') {
+      return { kind: 'literal', value: -Number(this.next().value) };
+    }
+    if (token.type === 'symbol' && token.value === '[') {
+      const items: Operand[] = [];
+      if (!this.isSymbol(']')) {
+        do {
+          items.push(this.value());
+        } while (this.symbol(','));
+      }
+      this.expectSymbol(']');
+      return { kind: 'list', items };
+    }
+    if (token.type === 'identifier') {
+      const word = token.value.toLowerCase();
+      if (word === 'true' || word === 'false') return { kind: 'literal', value: word === 'true' };
+      if (word === 'null') return { kind: 'literal', value: null };
+    }
+    return this.fail('a value', token);
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index]!;
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index]!;
+    if (token.type !== 'end') this.index++;
+    return token;
+  }
+
+  private isSymbol(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'symbol' && token.value === value;
+  }
+
+  private symbol(value: string): boolean {
+    if (!this.isSymbol(value)) return false;
+    this.index++;
+    return true;
+  }
+
+  private expectSymbol(value: string): void {
+    if (!this.symbol(value)) this.fail(`'${value}'`);
+  }
+
+  private keyword(word: string): boolean {
+    const token = this.peek();
+    if (token.type !== 'identifier' || token.value.toUpperCase() !== word) return false;
+    this.index++;
+    return true;
+  }
+
+  private expectKeyword(word: string): void {
+    if (!this.keyword(word)) this.fail(word);
+  }
+
+  private fail(expected: string, token: Token = this.peek()): never {
+    const found = token.type === 'end' ? 'end of query' : `'${token.value}'`;
+    throw new ValidationError(`Expected ${expected} at position ${token.position}, found ${found}`);
+  }
+}
+
+export interface CompiledPattern {
+  sql: string;
+  bindings: any[];
+  /** Result keys, in RETURN order; every column holds JSON text */
+  columns: string[];
+}
+
+// Compiler. Nodes and relationships get table aliases n0.., e0..; variable-length
+// relationships become recursive CTEs (h0..) seeded from the left node's candidates and
+// reduced to distinct endpoint pairs (r0..).
+export function compilePattern(pattern: string, params: Record<string, unknown> = {}): CompiledPattern {
+  const query = new Parser(tokenize(pattern)).parse();
+  const bindings: any[] = [];
+  const ctes: string[] = [];
+  const from: string[] = [];
+  const conditions: string[] = [];
+  const nodes = new Map<string, string>();
+  // Each node alias's own label and property conditions, reused to seed walks
+  const nodeConditions = new Map<string, string[]>();
+  const relationships = new Map<string, string>();
+  const fixedEdges: string[] = [];
+  let counter = 0;
+
+  // Numbered placeholders keep bindings independent of where the SQL ends up
+  const bind = (value: unknown): string => {
+    bindings.push(value);
+    return `?${bindings.length}`;
+  };
+
+  const paramValue = (name: string): unknown => {
+    if (!(name in params)) {
+      throw new ValidationError(`Missing parameter $${name}`);
+    }
+    return params[name];
+  };
+
+  const scalar = (operand: Operand): string => {
+    if (operand.kind === 'literal') return operand.value === null ? 'NULL' : bind(operand.value);
+    if (operand.kind === 'param') return bind(paramValue(operand.name));
+    if (operand.kind === 'property') return propertySQL(operand, 'json_extract');
+    if (operand.kind === 'variable') {
+      throw new ValidationError(`Compare properties of '${operand.name}', not the variable itself`);
+    }
+    throw new ValidationError('Lists are only supported with IN');
+  };
+
+  const propertySQL = (operand: { variable: string; key: string }, fn: 'json_extract' | '->'): string => {
+    const node = nodes.get(operand.variable);
+    const edge = relationships.get(operand.variable);
+    if (!node && !edge) {
+      throw new ValidationError(`Unknown variable '${operand.variable}'`);
+    }
+    const column = node ? `${node}.body` : `${edge}.properties`;
+    return fn === '->' ? `${column} -> ${jsonPath(operand.key)}` : `json_extract(${column}, ${jsonPath(operand.key)})`;
+  };
+
+  const propertyConditions = (column: string, properties: [string, Operand][]): string[] =>
+    properties.map(([key, value]) => {
+      const sql = scalar(value);
+      return sql === 'NULL' ? `json_extract(${column}, ${jsonPath(key)}) IS NULL` : `json_extract(${column}, ${jsonPath(key)}) = ${sql}`;
+    });
+
+  const nodeAlias = (node: NodePattern): string => {
+    let alias = node.variable ? nodes.get(node.variable) : undefined;
+    if (!alias) {
+      alias = `n${counter++}`;
+      from.push(`nodes ${alias}`);
+      if (node.variable) {
+        if (relationships.has(node.variable)) {
+          throw new ValidationError(`'${node.variable}' is already a relationship`);
+        }
+        nodes.set(node.variable, alias);
+      }
+    }
+    const own = [
+      ...node.labels.map(label => `EXISTS (SELECT 1 FROM node_labels WHERE node_labels.id = ${alias}.id AND label = ${bind(label)})`),
+      ...propertyConditions(`${alias}.body`, node.properties)
+    ];
+    nodeConditions.set(alias, [...(nodeConditions.get(alias) ?? []), ...own]);
+    conditions.push(...own);
+    return alias;
+  };
+
+  for (const path of query.paths) {
+    let left = nodeAlias(path[0] as NodePattern);
+    for (let i = 1; i < path.length; i += 2) {
+      const relationship = path[i] as RelationshipPattern;
+      const right = nodeAlias(path[i + 1] as NodePattern);
+
+      if (relationship.hops) {
+        const id = counter++;
+        const typed = relationship.types.length > 0 ? ` WHERE type IN (${relationship.types.map(bind).join(', ')})` : '';
+        const steps = relationship.direction === 'outbound'
+          ? `SELECT source AS src, target AS dst, properties FROM edges${typed}`
+          : relationship.direction === 'inbound'
+            ? `SELECT target AS src, source AS dst, properties FROM edges${typed}`
+            : `SELECT source AS src, target AS dst, properties FROM edges${typed} UNION ALL SELECT target, source, properties FROM edges${typed}`;
+        // Relationship properties apply to every hop
+        const hopFilter = (column: string) =>
+          propertyConditions(column, relationship.properties).map(condition => ` AND ${condition}`).join('');
+        const { min, max } = relationship.hops;
+        const seeds = nodeConditions.get(left) ?? [];
+        const seedFilter = seeds.length > 0 ? ` AND ${seeds.join(' AND ')}` : '';
+        // Reachability rather than paths: UNION keeps one row per (start, finish, depth),
+        // and without an upper bound depth stops counting at min so the walk terminates
+        const depth = max !== undefined ? 'h.depth + 1' : `min(h.depth + 1, ${min})`;
+        const bound = max !== undefined ? ` AND h.depth < ${max}` : '';
+        ctes.push(`h${id}(start, finish, depth) AS (
+  SELECT e.src, e.dst, 1 FROM (${steps}) e JOIN nodes ${left} ON ${left}.id = e.src WHERE 1${seedFilter}${hopFilter('e.properties')}
+  UNION
+  SELECT h.start, e.dst, ${depth}
+  FROM h${id} h JOIN (${steps}) e ON e.src = h.finish
+  WHERE 1${bound}${hopFilter('e.properties')}
+), r${id}(start, finish) AS (
+  SELECT DISTINCT start, finish FROM h${id} WHERE depth >= ${min}
+)`);
+        from.push(`r${id}`);
+        conditions.push(`r${id}.start = ${left}.id`, `r${id}.finish = ${right}.id`);
+      } else {
+        let alias = relationship.variable ? relationships.get(relationship.variable) : undefined;
+        if (alias) {
+          throw new ValidationError(`Relationship '${relationship.variable}' is used twice`);
+        }
+        alias = `e${counter++}`;
+        from.push(`edges ${alias}`);
+        if (relationship.variable) {
+          if (nodes.has(relationship.variable)) {
+            throw new ValidationError(`'${relationship.variable}' is already a node`);
+          }
+          relationships.set(relationship.variable, alias);
+        }
+        if (relationship.direction === 'outbound') {
+          conditions.push(`${alias}.source = ${left}.id`, `${alias}.target = ${right}.id`);
+        } else if (relationship.direction === 'inbound') {
+          conditions.push(`${alias}.source = ${right}.id`, `${alias}.target = ${left}.id`);
+        } else {
+          conditions.push(`((${alias}.source = ${left}.id AND ${alias}.target = ${right}.id) OR (${alias}.source = ${right}.id AND ${alias}.target = ${left}.id))`);
+        }
+        if (relationship.types.length > 0) {
+          conditions.push(`${alias}.type IN (${relationship.types.map(bind).join(', ')})`);
+        }
+        conditions.push(...propertyConditions(`${alias}.properties`, relationship.properties));
+        // As in Cypher, one edge is not matched twice within a pattern
+        for (const other of fixedEdges) {
+          conditions.push(`${alias}.id <> ${other}.id`);
+        }
+        fixedEdges.push(alias);
+      }
+      left = right;
+    }
+  }
+
+  const expression = (node: Expression): string => {
+    switch (node.kind) {
+      case 'and':
+      case 'or':
+        return `(${expression(node.left)} ${node.kind.toUpperCase()} ${expression(node.right)})`;
+      case 'not':
+        return `NOT (${expression(node.operand)})`;
+      case 'null':
+        return `${scalar(node.operand)} IS ${node.negated ? 'NOT ' : ''}NULL`;
+      case 'compare': {
+        const left = scalar(node.left);
+        if (node.operator === 'IN') {
+          if (node.right.kind === 'list') {
+            return node.right.items.length === 0 ? '0' : `${left} IN (${node.right.items.map(scalar).join(', ')})`;
+          }
+          const list = node.right.kind === 'param' ? paramValue(node.right.name) : undefined;
+          if (!Array.isArray(list)) {
+            throw new ValidationError('IN requires a list');
+          }
+          return `${left} IN (SELECT value FROM json_each(${bind(JSON.stringify(list))}))`;
+        }
+        const right = scalar(node.right);
+        if (node.operator === 'CONTAINS') return `instr(${left}, ${right}) > 0`;
+        if (node.operator === 'STARTS') return `substr(${left}, 1, length(${right})) = ${right}`;
+        if (node.operator === 'ENDS') return `substr(${left}, -length(${right})) = ${right}`;
+        if (right === 'NULL') {
+          if (node.operator === '=') return `${left} IS NULL`;
+          if (node.operator === '<>') return `${left} IS NOT NULL`;
+        }
+        return `${left} ${node.operator} ${right}`;
+      }
+    }
+  };
+
+  if (query.where) {
+    conditions.push(expression(query.where));
+  }
+
+  const columns: string[] = [];
+  const select = query.returns.map((item, i) => {
+    if (columns.includes(item.name)) {
+      throw new ValidationError(`Duplicate result name '${item.name}'`);
+    }
+    columns.push(item.name);
+    if (item.operand.kind === 'property') {
+      return `${propertySQL(item.operand, '->')} AS c${i}`;
+    }
+    const name = (item.operand as { name: string }).name;
+    const node = nodes.get(name);
+    const edge = relationships.get(name);
+    if (node) return `${node}.body AS c${i}`;
+    if (edge) {
+      // As in EdgeData, type is left out when null
+      return `json_patch(json_object('id', ${edge}.id, 'source', ${edge}.source, 'target', ${edge}.target, 'properties', json(coalesce(${edge}.properties, '{}'))), json_object('type', ${edge}.type)) AS c${i}`;
+    }
+    throw new ValidationError(`Unknown variable '${name}'`);
+  });
+
+  let sql = ctes.length > 0 ? `WITH RECURSIVE ${ctes.join(',\n')}\n` : '';
+  sql += `SELECT ${query.distinct ? 'DISTINCT ' : ''}${select.join(', ')}\nFROM ${from.join(', ')}`;
+  if (conditions.length > 0) {
+    sql += `\nWHERE ${conditions.join('\n  AND ')}`;
+  }
+  if (query.orderBy.length > 0) {
+    sql += `\nORDER BY ${query.orderBy.map(order => `${scalar(order.operand)}${order.descending ? ' DESC' : ''}`).join(', ')}`;
+  }
+  if (query.limit || query.skip) {
+    sql += `\nLIMIT ${query.limit ? scalar(query.limit) : -1}`;
+    if (query.skip) {
+      sql += ` OFFSET ${scalar(query.skip)}`;
+    }
+  }
+
+  return { sql, bindings, columns };
+}
@@ -0,0 +1,137 @@
+// Graphviz DOT and Mermaid renderers for traversal results and whole-graph exports
+import type { EdgeData, GraphData, NodeData } from "./index";
+
+export type RenderFormat = 'dot' | 'mermaid';
+
+export interface RenderOptions {
+  /** Body key (dot-separated) or function giving a node's label; defaults to the node id */
+  nodeLabel?: string | ((node: NodeData<any>) => string | undefined);
+  /** Property key (dot-separated) or function giving an edge's label; edges are unlabelled by default */
+  edgeLabel?: string | ((edge: EdgeData<any>) => string | undefined);
+  /** Body key holding the node type that nodeStyles are looked up by; defaults to 'type' */
+  typeKey?: string;
+  /**
+   * Styling per node type. Keys are DOT attributes for toDot (`{ shape: 'box' }`) and
+   * CSS properties for toMermaid (`{ fill: '#eef' }`).
+   */
+  nodeStyles?: Record<string, Record<string, string>>;
+  /** Layout direction; defaults to 'LR' */
+  direction?: 'TB' | 'BT' | 'LR' | 'RL';
+}
+
+interface RenderNode {
+  key: string;
+  node: NodeData<any>;
+  label: string;
+  type?: string;
+}
+
+interface RenderEdge {
+  source: RenderNode;
+  target: RenderNode;
+  label?: string;
+}
+
+function valueAt(data: any, key: string): unknown {
+  let value = data;
+  for (const part of key.split('.')) {
+    value = value?.[part];
+  }
+  return value;
+}
+
+function labelFor<T>(item: T, data: object, label: string | ((item: T) => string | undefined) | undefined): string | undefined {
+  if (label === undefined) return undefined;
+  const value = typeof label === 'function' ? label(item) : valueAt(data, label);
+  if (value === undefined || value === null) return undefined;
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+// Collect unique nodes and edges from the interleaved list. Edge endpoints missing from the
+// list (e.g. a traversal without bodies) are rendered as bare ids.
+function collect(data: GraphData<any, any>[], options: RenderOptions): { nodes: RenderNode[]; edges: RenderEdge[] } {
+  const typeKey = options.typeKey || 'type';
+  const nodes = new Map<string | number, RenderNode>();
+  const edges = new Map<string, RenderEdge>();
+
+  const nodeFor = (node: NodeData<any>): RenderNode => {
+    let entry = nodes.get(node.identifier);
+    if (!entry) {
+      const type = valueAt(node.body, typeKey);
+      entry = {
+        key: `n${nodes.size}`,
+        node,
+        label: labelFor(node, node.body, options.nodeLabel) ?? String(node.identifier),
+        type: typeof type === 'string' ? type : undefined
+      };
+      nodes.set(node.identifier, entry);
+    }
+    return entry;
+  };
+
+  for (const item of data) {
+    if (item.node) nodeFor(item.node);
+  }
+  for (const item of data) {
+    if (!item.edge || edges.has(item.edge.id)) continue;
+    edges.set(item.edge.id, {
+      source: nodeFor({ identifier: item.edge.source, body: {} }),
+      target: nodeFor({ identifier: item.edge.target, body: {} }),
+      label: labelFor(item.edge, item.edge.properties, options.edgeLabel)
+    });
+  }
+
+  return { nodes: [...nodes.values()], edges: [...edges.values()] };
+}
+
+function dotString(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\r?\n/g, '\\n')}"`;
+}
+
+function dotAttributes(attributes: Record<string, string>): string {
+  const entries = Object.entries(attributes);
+  if (entries.length === 0) return '';
+  return ` [${entries.map(([name, value]) => `${name}=${dotString(value)}`).join(', ')}]`;
+}
+
+export function toDot(data: GraphData<any, any>[], options: RenderOptions = {}): string {
+  const { nodes, edges } = collect(data, options);
+  const lines = ['digraph G {', `  rankdir=${options.direction || 'LR'};`];
+  for (const entry of nodes) {
+    const style = entry.type !== undefined ? options.nodeStyles?.[entry.type] : undefined;
+    lines.push(`  ${dotString(String(entry.node.identifier))}${dotAttributes({ label: entry.label, ...style })};`);
+  }
+  for (const edge of edges) {
+    const attributes: Record<string, string> = edge.label !== undefined ? { label: edge.label } : {};
+    lines.push(`  ${dotString(String(edge.source.node.identifier))} -> ${dotString(String(edge.target.node.identifier))}${dotAttributes(attributes)};`);
+  }
+  lines.push('}');
+  return lines.join('\n') + '\n';
+}
+
+// Mermaid labels are quoted; quotes and markup characters use its entity syntax
+function mermaidString(value: string): string {
+  return `"${value.replace(/"/g, '#quot;').replace(/</g, '#lt;').replace(/>/g, '#gt;').replace(/\r?\n/g, '<br/>')}"`;
+}
+
+// Node ids are generated (n0, n1, ...) since Mermaid ids cannot hold arbitrary text
+export function toMermaid(data: GraphData<any, any>[], options: RenderOptions = {}): string {
+  const { nodes, edges } = collect(data, options);
+  const lines = [`flowchart ${options.direction || 'LR'}`];
+  for (const entry of nodes) {
+    lines.push(`  ${entry.key}[${mermaidString(entry.label)}]`);
+  }
+  for (const edge of edges) {
+    const label = edge.label !== undefined ? `|${mermaidString(edge.label)}|` : '';
+    lines.push(`  ${edge.source.key} -->${label} ${edge.target.key}`);
+  }
+
+  // One class per styled type; type names are not valid class names in general
+  Object.entries(options.nodeStyles || {}).forEach(([type, style], i) => {
+    const members = nodes.filter(entry => entry.type === type).map(entry => entry.key);
+    if (members.length === 0) return;
+    const css = Object.entries(style).map(([name, value]) => `${name}:${value}`).join(',');
+    lines.push(`  classDef type${i} ${css}`, `  class ${members.join(',')} type${i}`);
+  });
+  return lines.join('\n') + '\n';
+}
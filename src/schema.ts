@@ -0,0 +1,144 @@
+// JSON Schema subset used to validate node bodies and edge properties
+
+export type JSONSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+export interface JSONSchema {
+  type?: JSONSchemaType | JSONSchemaType[];
+  enum?: unknown[];
+  const?: unknown;
+
+  // Objects
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JSONSchema;
+
+  // Arrays
+  items?: JSONSchema;
+  minItems?: number;
+  maxItems?: number;
+
+  // Strings
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+
+  // Numbers
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+}
+
+export interface SchemaIssue {
+  /** Location of the offending value, e.g. `$.address.city` or `$.tags[0]` */
+  path: string;
+  message: string;
+}
+
+function typeOf(value: unknown): JSONSchemaType {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as JSONSchemaType;
+}
+
+function matchesType(value: unknown, type: JSONSchemaType): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+function childPath(path: string, key: string | number): string {
+  if (typeof key === 'number') {
+    return `${path}[${key}]`;
+  }
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// Returns the first violation found, or null when the value conforms
+export function checkSchema(schema: JSONSchema, value: unknown, path = '$'): SchemaIssue | null {
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      return { path, message: `Expected ${types.join(' or ')}, got ${typeOf(value)}` };
+    }
+  }
+
+  if (schema.enum && !schema.enum.some(option => sameValue(option, value))) {
+    return { path, message: `Must be one of ${JSON.stringify(schema.enum)}` };
+  }
+
+  if (schema.const !== undefined && !sameValue(schema.const, value)) {
+    return { path, message: `Must equal ${JSON.stringify(schema.const)}` };
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      return { path, message: `Must be at least ${schema.minLength} characters` };
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      return { path, message: `Must be at most ${schema.maxLength} characters` };
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      return { path, message: `Must match pattern ${schema.pattern}` };
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      return { path, message: `Must be >= ${schema.minimum}` };
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      return { path, message: `Must be <= ${schema.maximum}` };
+    }
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      return { path, message: `Must be > ${schema.exclusiveMinimum}` };
+    }
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+      return { path, message: `Must be < ${schema.exclusiveMaximum}` };
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      return { path, message: `Must have at least ${schema.minItems} items` };
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      return { path, message: `Must have at most ${schema.maxItems} items` };
+    }
+    if (schema.items) {
+      for (let i = 0; i < value.length; i++) {
+        const issue = checkSchema(schema.items, value[i], childPath(path, i));
+        if (issue) return issue;
+      }
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const object = value as Record<string, unknown>;
+
+    for (const key of schema.required || []) {
+      if (!(key in object)) {
+        return { path: childPath(path, key), message: 'Required property is missing' };
+      }
+    }
+
+    for (const [key, child] of Object.entries(object)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        const issue = checkSchema(propertySchema, child, childPath(path, key));
+        if (issue) return issue;
+      } else if (schema.additionalProperties === false) {
+        return { path: childPath(path, key), message: 'Additional property is not allowed' };
+      } else if (typeof schema.additionalProperties === 'object') {
+        const issue = checkSchema(schema.additionalProperties, child, childPath(path, key));
+        if (issue) return issue;
+      }
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1 @@
+SELECT * FROM changes WHERE seq > ? ORDER BY seq LIMIT ?
\ No newline at end of file
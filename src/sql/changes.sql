@@ -0,0 +1,30 @@
+CREATE TRIGGER IF NOT EXISTS changes_node_insert AFTER INSERT ON nodes BEGIN
+    INSERT INTO changes (type, id, data) VALUES ('nodeAdded', NEW.id, NEW.body);
+END;
+
+CREATE TRIGGER IF NOT EXISTS changes_node_update AFTER UPDATE ON nodes BEGIN
+    INSERT INTO changes (type, id, data) VALUES ('nodeUpdated', NEW.id, NEW.body);
+END;
+
+CREATE TRIGGER IF NOT EXISTS changes_node_delete AFTER DELETE ON nodes BEGIN
+    INSERT INTO changes (type, id, data) VALUES ('nodeRemoved', OLD.id, OLD.body);
+END;
+
+-- json_patch drops the type member when it is null, as EdgeData leaves it out
+CREATE TRIGGER IF NOT EXISTS changes_edge_insert AFTER INSERT ON edges BEGIN
+    INSERT INTO changes (type, id, data) VALUES ('edgeAdded', NEW.id,
+        json_patch(json_object('id', NEW.id, 'source', NEW.source, 'target', NEW.target, 'properties', json(coalesce(NEW.properties, '{}'))),
+            json_object('type', NEW.type)));
+END;
+
+CREATE TRIGGER IF NOT EXISTS changes_edge_update AFTER UPDATE ON edges BEGIN
+    INSERT INTO changes (type, id, data) VALUES ('edgeUpdated', NEW.id,
+        json_patch(json_object('id', NEW.id, 'source', NEW.source, 'target', NEW.target, 'properties', json(coalesce(NEW.properties, '{}'))),
+            json_object('type', NEW.type)));
+END;
+
+CREATE TRIGGER IF NOT EXISTS changes_edge_delete AFTER DELETE ON edges BEGIN
+    INSERT INTO changes (type, id, data) VALUES ('edgeRemoved', OLD.id,
+        json_patch(json_object('id', OLD.id, 'source', OLD.source, 'target', OLD.target, 'properties', json(coalesce(OLD.properties, '{}'))),
+            json_object('type', OLD.type)));
+END;
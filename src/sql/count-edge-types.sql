@@ -0,0 +1 @@
+SELECT type AS name, count(*) AS count FROM edges WHERE type IS NOT NULL GROUP BY type ORDER BY type
\ No newline at end of file
@@ -0,0 +1 @@
+SELECT label AS name, count(*) AS count FROM node_labels GROUP BY label ORDER BY label
\ No newline at end of file
@@ -0,0 +1 @@
+SELECT COUNT(*) AS count FROM edges WHERE (source = ?1 OR target = ?1) AND source IS NOT ?2 AND target IS NOT ?2
\ No newline at end of file
@@ -0,0 +1 @@
+DELETE FROM constraints WHERE name = ?
\ No newline at end of file
@@ -0,0 +1 @@
+DELETE FROM edges WHERE id = ?
\ No newline at end of file
@@ -0,0 +1 @@
+DELETE FROM edges WHERE source = ? AND target = ? AND properties = json(?)
\ No newline at end of file
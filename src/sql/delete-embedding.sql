@@ -0,0 +1 @@
+DELETE FROM node_embeddings WHERE id = ?
\ No newline at end of file
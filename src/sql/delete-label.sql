@@ -0,0 +1 @@
+DELETE FROM node_labels WHERE id = ? AND label = ?
\ No newline at end of file
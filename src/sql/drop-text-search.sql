@@ -0,0 +1,2 @@
+DROP TABLE IF EXISTS nodes_fts;
+DROP TABLE IF EXISTS nodes_fts_ids;
@@ -0,0 +1 @@
+SELECT DISTINCT type FROM edges WHERE source = ? AND target = ?
\ No newline at end of file
@@ -0,0 +1 @@
+SELECT * FROM edge_versions WHERE id = ? ORDER BY version
\ No newline at end of file
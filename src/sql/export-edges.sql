@@ -0,0 +1 @@
+SELECT * FROM edges WHERE ?1 IS NULL OR (source IN (SELECT CAST(value AS TEXT) FROM json_each(?1)) AND target IN (SELECT CAST(value AS TEXT) FROM json_each(?1))) ORDER BY rowid
\ No newline at end of file
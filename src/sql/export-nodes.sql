@@ -0,0 +1 @@
+SELECT body FROM nodes WHERE ?1 IS NULL OR id IN (SELECT CAST(value AS TEXT) FROM json_each(?1)) ORDER BY rowid
\ No newline at end of file
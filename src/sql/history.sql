@@ -0,0 +1,36 @@
+CREATE TRIGGER IF NOT EXISTS history_node_insert AFTER INSERT ON nodes BEGIN
+    INSERT INTO node_versions (id, version, body)
+    VALUES (NEW.id, (SELECT coalesce(max(version), 0) + 1 FROM node_versions WHERE id = NEW.id), NEW.body);
+END;
+
+CREATE TRIGGER IF NOT EXISTS history_node_update AFTER UPDATE ON nodes BEGIN
+    INSERT INTO node_versions (id, version, body)
+    VALUES (NEW.id, (SELECT coalesce(max(version), 0) + 1 FROM node_versions WHERE id = NEW.id), NEW.body);
+END;
+
+CREATE TRIGGER IF NOT EXISTS history_node_delete AFTER DELETE ON nodes BEGIN
+    INSERT INTO node_versions (id, version, body)
+    VALUES (OLD.id, (SELECT coalesce(max(version), 0) + 1 FROM node_versions WHERE id = OLD.id), NULL);
+END;
+
+CREATE TRIGGER IF NOT EXISTS history_edge_insert AFTER INSERT ON edges BEGIN
+    INSERT INTO edge_versions (id, version, source, target, properties, type)
+    VALUES (NEW.id, (SELECT coalesce(max(version), 0) + 1 FROM edge_versions WHERE id = NEW.id), NEW.source, NEW.target, NEW.properties, NEW.type);
+END;
+
+CREATE TRIGGER IF NOT EXISTS history_edge_update AFTER UPDATE ON edges BEGIN
+    INSERT INTO edge_versions (id, version, source, target, properties, type)
+    VALUES (NEW.id, (SELECT coalesce(max(version), 0) + 1 FROM edge_versions WHERE id = NEW.id), NEW.source, NEW.target, NEW.properties, NEW.type);
+END;
+
+CREATE TRIGGER IF NOT EXISTS history_edge_delete AFTER DELETE ON edges BEGIN
+    INSERT INTO edge_versions (id, version, source, target, properties, type, removed)
+    VALUES (OLD.id, (SELECT coalesce(max(version), 0) + 1 FROM edge_versions WHERE id = OLD.id), OLD.source, OLD.target, OLD.properties, OLD.type, 1);
+END;
+
+-- Seed the current state, so history starts from the moment it is enabled
+INSERT INTO node_versions (id, version, body)
+SELECT id, (SELECT coalesce(max(version), 0) + 1 FROM node_versions v WHERE v.id = nodes.id), body FROM nodes;
+
+INSERT INTO edge_versions (id, version, source, target, properties, type)
+SELECT id, (SELECT coalesce(max(version), 0) + 1 FROM edge_versions v WHERE v.id = edges.id), source, target, properties, type FROM edges;
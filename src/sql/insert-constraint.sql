@@ -0,0 +1 @@
+INSERT OR IGNORE INTO constraints VALUES(?, ?, ?, json(?))
\ No newline at end of file
@@ -1 +1 @@
-INSERT INTO edges VALUES(?, ?, json(?))
\ No newline at end of file
+INSERT INTO edges (id, source, target, properties, type) VALUES(coalesce(?, lower(hex(randomblob(16)))), ?, ?, json(?), ?) RETURNING id
\ No newline at end of file
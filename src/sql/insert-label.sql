@@ -0,0 +1 @@
+INSERT OR IGNORE INTO node_labels (id, label) VALUES (?, ?)
\ No newline at end of file
@@ -0,0 +1 @@
+SELECT coalesce(max(seq), 0) AS seq FROM changes
\ No newline at end of file
@@ -0,0 +1 @@
+SELECT * FROM constraints ORDER BY name
\ No newline at end of file
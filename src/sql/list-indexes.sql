@@ -0,0 +1 @@
+SELECT name, tbl_name, sql FROM sqlite_master WHERE type = 'index' AND (name LIKE 'idx\_nodes\_%' ESCAPE '\' OR name LIKE 'idx\_edges\_%' ESCAPE '\') ORDER BY name
\ No newline at end of file
@@ -0,0 +1 @@
+SELECT vector FROM node_embeddings WHERE id = ?
\ No newline at end of file
@@ -0,0 +1 @@
+SELECT id FROM nodes WHERE id = ?
\ No newline at end of file
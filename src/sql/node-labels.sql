@@ -0,0 +1 @@
+SELECT label FROM node_labels WHERE id = ? ORDER BY label
\ No newline at end of file
@@ -0,0 +1 @@
+SELECT length(vector) AS bytes FROM node_embeddings WHERE id != ? LIMIT 1
\ No newline at end of file
@@ -0,0 +1 @@
+DELETE FROM changes WHERE seq <= ?
\ No newline at end of file
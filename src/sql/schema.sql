@@ -6,13 +6,70 @@ CREATE TABLE IF NOT EXISTS nodes (
 CREATE INDEX IF NOT EXISTS id_idx ON nodes(id);
 
 CREATE TABLE IF NOT EXISTS edges (
+    id         TEXT NOT NULL PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
     source     TEXT,
     target     TEXT,
     properties TEXT,
-    UNIQUE(source, target, properties) ON CONFLICT REPLACE,
+    type       TEXT,
     FOREIGN KEY(source) REFERENCES nodes(id),
     FOREIGN KEY(target) REFERENCES nodes(id)
 );
 
 CREATE INDEX IF NOT EXISTS source_idx ON edges(source);
 CREATE INDEX IF NOT EXISTS target_idx ON edges(target);
+
+CREATE TABLE IF NOT EXISTS node_labels (
+    id    TEXT NOT NULL,
+    label TEXT NOT NULL,
+    PRIMARY KEY (id, label)
+) WITHOUT ROWID;
+
+CREATE INDEX IF NOT EXISTS label_idx ON node_labels(label, id);
+
+CREATE TRIGGER IF NOT EXISTS labels_node_delete AFTER DELETE ON nodes BEGIN
+    DELETE FROM node_labels WHERE id = OLD.id;
+END;
+
+CREATE TABLE IF NOT EXISTS constraints (
+    name  TEXT NOT NULL PRIMARY KEY,
+    kind  TEXT NOT NULL,
+    key   TEXT NOT NULL,
+    scope TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS changes (
+    seq        INTEGER PRIMARY KEY AUTOINCREMENT,
+    type       TEXT NOT NULL,
+    id         TEXT NOT NULL,
+    data       TEXT NOT NULL,
+    created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE TABLE IF NOT EXISTS node_versions (
+    id         TEXT NOT NULL,
+    version    INTEGER NOT NULL,
+    body       TEXT,
+    valid_from TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    PRIMARY KEY (id, version)
+);
+
+CREATE TABLE IF NOT EXISTS edge_versions (
+    id         TEXT NOT NULL,
+    version    INTEGER NOT NULL,
+    source     TEXT,
+    target     TEXT,
+    properties TEXT,
+    type       TEXT,
+    removed    INTEGER NOT NULL DEFAULT 0,
+    valid_from TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    PRIMARY KEY (id, version)
+);
+
+CREATE TABLE IF NOT EXISTS node_embeddings (
+    id     TEXT NOT NULL PRIMARY KEY,
+    vector BLOB NOT NULL
+);
+
+CREATE TRIGGER IF NOT EXISTS embeddings_node_delete AFTER DELETE ON nodes BEGIN
+    DELETE FROM node_embeddings WHERE id = OLD.id;
+END;
@@ -0,0 +1 @@
+SELECT * FROM edges WHERE id = ?
\ No newline at end of file
@@ -0,0 +1 @@
+SELECT name FROM pragma_table_info('nodes_fts')
\ No newline at end of file
@@ -0,0 +1 @@
+SELECT 1 FROM sqlite_master WHERE type = 'trigger' AND name = ?
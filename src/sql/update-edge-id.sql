@@ -0,0 +1 @@
+UPDATE edges SET properties = json(?) WHERE id = ?
\ No newline at end of file
@@ -0,0 +1 @@
+UPDATE edges SET type = ? WHERE id = ?
\ No newline at end of file
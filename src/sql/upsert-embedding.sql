@@ -0,0 +1 @@
+INSERT OR REPLACE INTO node_embeddings (id, vector) VALUES (?, ?)
\ No newline at end of file
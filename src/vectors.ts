@@ -0,0 +1,48 @@
+// Embedding storage and similarity metrics for nearest-neighbour search
+import { ValidationError } from "./errors";
+
+export type VectorMetric = 'cosine' | 'dot' | 'l2';
+
+export function checkVector(vector: Float32Array | number[]): Float32Array {
+  if (!(vector instanceof Float32Array) && !Array.isArray(vector)) {
+    throw new ValidationError('Embedding must be a Float32Array or an array of numbers');
+  }
+  if (vector.length === 0) {
+    throw new ValidationError('Embedding must not be empty');
+  }
+  const values = vector instanceof Float32Array ? vector : Float32Array.from(vector);
+  if (!values.every(Number.isFinite)) {
+    throw new ValidationError('Embedding values must be finite numbers');
+  }
+  return values;
+}
+
+// Stored as raw little-endian float32s, four bytes per dimension
+export function toBlob(vector: Float32Array): Uint8Array {
+  return new Uint8Array(vector.buffer.slice(vector.byteOffset, vector.byteOffset + vector.byteLength));
+}
+
+export function fromBlob(blob: Uint8Array): Float32Array {
+  // Copy, since SQLite blobs need not be 4-byte aligned
+  return new Float32Array(blob.buffer.slice(blob.byteOffset, blob.byteOffset + blob.byteLength));
+}
+
+/** Higher is closer for 'cosine' and 'dot'; 'l2' is a distance, so lower is closer */
+export function score(metric: VectorMetric, a: Float32Array, b: Float32Array): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    const x = a[i]!;
+    const y = b[i]!;
+    dot += x * y;
+    normA += x * x;
+    normB += y * y;
+    distance += (x - y) * (x - y);
+  }
+  if (metric === 'dot') return dot;
+  if (metric === 'l2') return Math.sqrt(distance);
+  // A zero vector has no direction and matches nothing
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
@@ -1,7 +1,19 @@
 import { expect, describe, it, beforeEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import {
   createGraph,
+  query,
+  buildSearchQuery,
+  toDot,
+  toMermaid,
+  algorithms,
+  compilePattern,
+  diffGraphs,
   ConstraintError,
+  DatabaseError,
   NotFoundError,
   ValidationError,
 } from "../src/index";
@@ -185,6 +197,178 @@ describe("SimpleGraph", () => {
         expect(graph.findNode("user-2")).not.toBeNull();
         expect(graph.findNode("user-3")).toBeNull();
       });
+
+      it("should report missing ids", () => {
+        graph.addNode({ name: "Alice" }, "user-1");
+
+        expect(graph.removeNodes(["user-1", "ghost"])).toEqual({
+          removed: ["user-1"],
+          missing: ["ghost"],
+        });
+      });
+
+      it("should throw NotFoundError and remove nothing in strict mode", () => {
+        graph.addNode({ name: "Alice" }, "user-1");
+
+        expect(() =>
+          graph.removeNodes(["user-1", "ghost"], { strict: true }),
+        ).toThrow(NotFoundError);
+        expect(graph.findNode("user-1")).not.toBeNull();
+      });
+    });
+
+    describe("remove policies", () => {
+      beforeEach(() => {
+        graph.addNode({ name: "Alice" }, "user-1");
+        graph.addNode({ name: "Bob" }, "user-2");
+        graph.addNode({ name: "Charlie" }, "user-3");
+        graph.connectNodes("user-1", "user-2");
+        graph.connectNodes("user-2", "user-3");
+      });
+
+      it("should refuse to remove connected nodes with restrict", () => {
+        expect(() =>
+          graph.removeNode("user-2", { policy: "restrict" }),
+        ).toThrow(ConstraintError);
+        expect(graph.findNode("user-2")).not.toBeNull();
+        expect(graph.connections("user-2")).toHaveLength(2);
+
+        graph.addNode({ name: "Loner" }, "user-4");
+        graph.removeNode("user-4", { policy: "restrict" });
+        expect(graph.findNode("user-4")).toBeNull();
+      });
+
+      it("should refuse to orphan neighbours with orphan-check", () => {
+        expect(() =>
+          graph.removeNode("user-2", { policy: "orphan-check" }),
+        ).toThrow(ConstraintError);
+
+        graph.connectNodes("user-1", "user-3");
+        graph.removeNode("user-2", { policy: "orphan-check" });
+        expect(graph.connections("user-1")).toHaveLength(1);
+      });
+
+      it("should ignore neighbours removed in the same call", () => {
+        expect(() =>
+          graph.removeNodes(["user-1", "user-2"], { policy: "orphan-check" }),
+        ).toThrow("Removing node user-2 would orphan node user-3");
+
+        const result = graph.removeNodes(["user-1", "user-2", "user-3"], {
+          policy: "orphan-check",
+        });
+        expect(result.removed).toEqual(["user-1", "user-2", "user-3"]);
+      });
+
+      it("should check neighbours of numeric ids", () => {
+        const numeric = createGraph();
+        numeric.addNode({}, 1);
+        numeric.addNode({}, 2);
+        numeric.addNode({}, 3);
+        numeric.addNode({}, 4);
+        numeric.connectNodes(1, 2);
+        numeric.connectNodes(2, 3);
+        numeric.connectNodes(3, 4);
+
+        numeric.removeNode(1, { policy: "orphan-check" });
+        expect(numeric.findNode(1)).toBeNull();
+        expect(() =>
+          numeric.removeNodes([2, 3], { policy: "orphan-check" }),
+        ).toThrow("Removing node 3 would orphan node 4");
+        expect(
+          numeric.removeNodes([2, 3, 4], { policy: "orphan-check" }).removed,
+        ).toEqual([2, 3, 4]);
+      });
+
+      it("should roll back a batch when a policy fails", () => {
+        expect(() =>
+          graph.removeNodes(["user-3", "user-1"], { policy: "restrict" }),
+        ).toThrow(ConstraintError);
+        expect(graph.findNode("user-3")).not.toBeNull();
+        expect(graph.connections("user-3")).toHaveLength(1);
+      });
+    });
+  });
+
+  describe("Transactions", () => {
+    beforeEach(() => {
+      graph.addNode({ name: "Parent", children: 0 }, "parent");
+    });
+
+    it("should commit all operations together", () => {
+      const result = graph.transaction((tx) => {
+        tx.addNode({ name: "Child" }, "child");
+        tx.connectNodes("parent", "child");
+        tx.upsertNode("parent", { children: 1 });
+        return "done";
+      });
+
+      expect(result).toBe("done");
+      expect(graph.connectionsOut("parent")).toHaveLength(1);
+      expect((graph.findNode("parent") as any).children).toBe(1);
+    });
+
+    it("should roll everything back on error", () => {
+      expect(() =>
+        graph.transaction((tx) => {
+          tx.addNode({ name: "Child" }, "child");
+          tx.connectNodes("parent", "child");
+          tx.connectNodes("parent", "missing");
+        }),
+      ).toThrow(ConstraintError);
+
+      expect(graph.findNode("child")).toBeNull();
+      expect(graph.connections("parent")).toHaveLength(0);
+    });
+
+    it("should roll back only a failed nested savepoint", () => {
+      graph.transaction(
+        (tx) => {
+          tx.addNode({ name: "Kept" }, "kept");
+          try {
+            tx.transaction((inner) => {
+              inner.addNode({ name: "Dropped" }, "dropped");
+              throw new Error("abort inner");
+            });
+          } catch {
+            // swallow so the outer transaction commits
+          }
+          // bulk operations nest as savepoints too
+          tx.addNodes([{ name: "Bulk" }], ["bulk"]);
+        },
+        { mode: "immediate" },
+      );
+
+      expect(graph.findNode("kept")).not.toBeNull();
+      expect(graph.findNode("bulk")).not.toBeNull();
+      expect(graph.findNode("dropped")).toBeNull();
+    });
+
+    it("should reject async callbacks", () => {
+      let ran = false;
+      expect(() =>
+        graph.transaction(async (tx) => {
+          ran = true;
+          tx.addNode({ name: "Late" }, "late");
+        }),
+      ).toThrow(ValidationError);
+      expect(ran).toBe(false);
+      expect(graph.findNode("late")).toBeNull();
+    });
+
+    it("should reject callbacks that return promises", () => {
+      expect(() =>
+        graph.transaction((tx) => {
+          tx.addNode({ name: "Late" }, "late");
+          return Promise.resolve();
+        }),
+      ).toThrow(ValidationError);
+      expect(graph.findNode("late")).toBeNull();
+    });
+
+    it("should throw ValidationError for an unknown mode", () => {
+      expect(() =>
+        graph.transaction(() => {}, { mode: "eventual" as any }),
+      ).toThrow(ValidationError);
     });
   });
 
@@ -202,6 +386,7 @@ describe("SimpleGraph", () => {
 
         expect(edges).toHaveLength(1);
         expect(edges[0]).toEqual({
+          id: expect.any(String),
           source: "user-1",
           target: "user-2",
           properties: {},
@@ -225,6 +410,7 @@ describe("SimpleGraph", () => {
         const edges = graph.connections("user-1");
         expect(edges).toHaveLength(1);
         expect(edges[0]).toEqual({
+          id: expect.any(String),
           source: "user-1",
           target: "user-2",
           properties: {
@@ -324,6 +510,232 @@ describe("SimpleGraph", () => {
     });
   });
 
+  describe("Edge Lifecycle", () => {
+    beforeEach(() => {
+      graph.addNode({ name: "Alice" }, "user-1");
+      graph.addNode({ name: "Bob" }, "user-2");
+      graph.addNode({ name: "Charlie" }, "user-3");
+    });
+
+    describe("updateEdgeProperties", () => {
+      it("should replace edge properties", () => {
+        graph.connectNodesWithProperties("user-1", "user-2", { type: "follows" });
+        graph.updateEdgeProperties("user-1", "user-2", { type: "blocks" });
+
+        const edges = graph.connectionsOut("user-1");
+        expect(edges).toHaveLength(1);
+        expect(edges[0]?.properties).toEqual({ type: "blocks" });
+      });
+
+      it("should throw NotFoundError for missing edge", () => {
+        expect(() => {
+          graph.updateEdgeProperties("user-1", "user-2", { type: "blocks" });
+        }).toThrow(NotFoundError);
+      });
+    });
+
+    describe("bulkUpdateEdgeProperties", () => {
+      it("should roll back when any edge is missing", () => {
+        graph.connectNodesWithProperties("user-1", "user-2", { type: "follows" });
+
+        expect(() => {
+          graph.bulkUpdateEdgeProperties(
+            ["user-1", "user-2"],
+            ["user-2", "user-3"],
+            [{ type: "likes" }, { type: "likes" }],
+          );
+        }).toThrow(NotFoundError);
+        expect(graph.connectionsOut("user-1")[0]?.properties).toEqual({
+          type: "follows",
+        });
+      });
+    });
+
+    describe("disconnectNodes", () => {
+      it("should remove all edges between two nodes", () => {
+        graph.connectNodesWithProperties("user-1", "user-2", { type: "follows" });
+        graph.connectNodesWithProperties("user-1", "user-2", { type: "likes" });
+        graph.connectNodes("user-2", "user-1");
+
+        graph.disconnectNodes("user-1", "user-2");
+
+        expect(graph.connectionsOut("user-1")).toHaveLength(0);
+        expect(graph.connectionsIn("user-1")).toHaveLength(1);
+      });
+
+      it("should only remove the edge with matching properties", () => {
+        graph.connectNodesWithProperties("user-1", "user-2", { type: "follows" });
+        graph.connectNodesWithProperties("user-1", "user-2", { type: "likes" });
+
+        graph.disconnectNodes("user-1", "user-2", { type: "likes" });
+
+        const edges = graph.connectionsOut("user-1");
+        expect(edges).toHaveLength(1);
+        expect(edges[0]?.properties).toEqual({ type: "follows" });
+      });
+
+      it("should throw NotFoundError when nothing matched", () => {
+        expect(() => {
+          graph.disconnectNodes("user-1", "user-2");
+        }).toThrow(NotFoundError);
+      });
+    });
+
+    describe("bulkDisconnectNodes", () => {
+      it("should remove multiple edges", () => {
+        graph.bulkConnectNodes(["user-1", "user-2"], ["user-2", "user-3"]);
+        graph.bulkDisconnectNodes(["user-1", "user-2"], ["user-2", "user-3"]);
+
+        expect(graph.connections("user-2")).toHaveLength(0);
+      });
+
+      it("should throw ValidationError for mismatched arrays", () => {
+        expect(() => {
+          graph.bulkDisconnectNodes(["user-1"], ["user-2", "user-3"]);
+        }).toThrow(ValidationError);
+      });
+    });
+
+    describe("removeIncomingEdges / removeOutgoingEdges", () => {
+      it("should remove edges in one direction only", () => {
+        graph.connectNodes("user-2", "user-1");
+        graph.connectNodes("user-3", "user-1");
+        graph.connectNodes("user-1", "user-3");
+
+        graph.removeIncomingEdges("user-1");
+        expect(graph.connectionsIn("user-1")).toHaveLength(0);
+        expect(graph.connectionsOut("user-1")).toHaveLength(1);
+
+        graph.removeOutgoingEdges("user-1");
+        expect(graph.connections("user-1")).toHaveLength(0);
+      });
+
+      it("should throw NotFoundError when there are no edges", () => {
+        expect(() => graph.removeIncomingEdges("user-1")).toThrow(
+          NotFoundError,
+        );
+        expect(() => graph.removeOutgoingEdges("user-1")).toThrow(
+          NotFoundError,
+        );
+      });
+    });
+  });
+
+  describe("Edge Identifiers", () => {
+    beforeEach(() => {
+      graph.addNode({ name: "Alice" }, "user-1");
+      graph.addNode({ name: "Bob" }, "user-2");
+    });
+
+    it("should generate an id when none is supplied", () => {
+      const id = graph.connectNodes("user-1", "user-2");
+
+      expect(typeof id).toBe("string");
+      expect(graph.findEdge(id)).toEqual({
+        id,
+        source: "user-1",
+        target: "user-2",
+        properties: {},
+      });
+    });
+
+    it("should accept caller-supplied ids", () => {
+      graph.connectNodesWithProperties(
+        "user-1",
+        "user-2",
+        { type: "follows" },
+        "edge-1",
+      );
+      expect(graph.findEdge("edge-1")?.properties).toEqual({ type: "follows" });
+
+      expect(graph.bulkConnectNodes(["user-2"], ["user-1"], ["edge-2"])).toEqual(
+        ["edge-2"],
+      );
+    });
+
+    it("should throw ConstraintError for duplicate edge ids", () => {
+      graph.connectNodes("user-1", "user-2", "edge-1");
+      expect(() => {
+        graph.connectNodes("user-2", "user-1", "edge-1");
+      }).toThrow(ConstraintError);
+    });
+
+    it("should keep parallel edges with identical properties", () => {
+      graph.connectNodesWithProperties("user-1", "user-2", { type: "follows" });
+      graph.connectNodesWithProperties("user-1", "user-2", { type: "follows" });
+
+      expect(graph.connectionsOut("user-1")).toHaveLength(2);
+    });
+
+    it("should return null for a non-existent edge", () => {
+      expect(graph.findEdge("missing")).toBeNull();
+    });
+
+    describe("updateEdge", () => {
+      it("should update properties without changing identity", () => {
+        const id = graph.connectNodesWithProperties("user-1", "user-2", {
+          weight: 1,
+        });
+        graph.updateEdge(id, { weight: 2 });
+
+        expect(graph.findEdge(id)?.properties).toEqual({ weight: 2 });
+        expect(graph.connectionsOut("user-1")).toHaveLength(1);
+      });
+
+      it("should throw NotFoundError for a non-existent edge", () => {
+        expect(() => graph.updateEdge("missing", {})).toThrow(NotFoundError);
+      });
+    });
+
+    describe("removeEdge", () => {
+      it("should remove only the identified edge", () => {
+        const first = graph.connectNodes("user-1", "user-2");
+        const second = graph.connectNodes("user-1", "user-2");
+        graph.removeEdge(first);
+
+        expect(graph.connectionsOut("user-1").map((e) => e.id)).toEqual([
+          second,
+        ]);
+      });
+
+      it("should throw NotFoundError for a non-existent edge", () => {
+        expect(() => graph.removeEdge("missing")).toThrow(NotFoundError);
+      });
+    });
+
+    it("should migrate edges from databases without edge ids", () => {
+      const dir = mkdtempSync(join(tmpdir(), "simple-graph-"));
+      const file = join(dir, "legacy.db");
+      try {
+        const legacy = new Database(file);
+        legacy.exec(`
+          CREATE TABLE nodes (
+            body TEXT,
+            id   TEXT GENERATED ALWAYS AS (json_extract(body, '$.id')) VIRTUAL NOT NULL UNIQUE
+          );
+          CREATE TABLE edges (
+            source     TEXT,
+            target     TEXT,
+            properties TEXT,
+            UNIQUE(source, target, properties) ON CONFLICT REPLACE
+          );
+          CREATE INDEX source_idx ON edges(source);
+          INSERT INTO nodes VALUES ('{"id":"a"}'), ('{"id":"b"}');
+          INSERT INTO edges VALUES ('a', 'b', '{"type":"follows"}');
+        `);
+        legacy.close();
+
+        const migrated = createGraph(file);
+        const edges = migrated.connectionsOut("a");
+        expect(edges).toHaveLength(1);
+        expect(edges[0]?.properties).toEqual({ type: "follows" });
+        expect(migrated.findEdge(edges[0]!.id)).toEqual(edges[0]!);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
   describe("Search Operations", () => {
     beforeEach(() => {
       graph.addNode({ name: "Alice", role: "engineer", level: 3 }, "user-1");
@@ -370,94 +782,2351 @@ describe("SimpleGraph", () => {
     });
   });
 
-  describe("Traversal Operations", () => {
+  describe("Query Builder", () => {
     beforeEach(() => {
-      // Create a deeper graph: user-1 -> user-2 -> user-3 -> user-4
-      //                              \-> project-1 -/
-      graph.addNode({ name: "Alice" }, "user-1");
-      graph.addNode({ name: "Bob" }, "user-2");
-      graph.addNode({ name: "Charlie" }, "user-3");
-      graph.addNode({ name: "David" }, "user-4");
-      graph.addNode({ title: "Project Alpha" }, "project-1");
+      graph.addNode({ name: "Alice", type: "user", age: 34 }, "user-1");
+      graph.addNode({ name: "Bob", type: "user", age: 25 }, "user-2");
+      graph.addNode({ name: "Charlie", type: "user", age: 41 }, "user-3");
+      graph.addNode({ name: "Acme", type: "company", age: 90 }, "org-1");
+    });
 
-      graph.connectNodes("user-1", "user-2");
-      graph.connectNodes("user-2", "user-3");
-      graph.connectNodes("user-3", "user-4");
-      graph.connectNodes("user-1", "project-1");
-      graph.connectNodes("project-1", "user-3");
+    it("should filter, order and limit", () => {
+      const results = graph
+        .query()
+        .where("type", "=", "user")
+        .and("age", ">", 30)
+        .orderBy("name", "DESC")
+        .limit(10)
+        .all();
+
+      expect(results.map((n: any) => n.name)).toEqual(["Charlie", "Alice"]);
     });
 
-    describe("traverse", () => {
-      it("should traverse outbound without bodies", () => {
-        const results = graph.traverse("user-1", { outbound: true });
+    it("should support OR, NOT, IN and grouped conditions", () => {
+      const names = (q: ReturnType<typeof query>) =>
+        graph
+          .findNodes(q.orderBy("name"))
+          .map((n: any) => n.name);
+
+      expect(names(query().where("age", "<", 30).or("type", "=", "company")))
+        .toEqual(["Acme", "Bob"]);
+      expect(names(query().where("type", "=", "user").not("name", "=", "Bob")))
+        .toEqual(["Alice", "Charlie"]);
+      expect(names(query().where("name", "IN", ["Bob", "Acme"])))
+        .toEqual(["Acme", "Bob"]);
+      expect(
+        names(
+          query()
+            .where("type", "=", "user")
+            .and(query().where("age", "<", 30).or("age", ">", 40)),
+        ),
+      ).toEqual(["Bob", "Charlie"]);
+    });
 
-        expect(results.length).toBeGreaterThan(0);
-        expect(results.some((r) => r.node?.identifier === "user-1")).toBe(true);
-        expect(results.some((r) => r.node?.identifier === "user-2")).toBe(true);
+    it("should return the first match or null", () => {
+      expect(graph.query().where("type", "=", "company").first()).toEqual({
+        id: "org-1",
+        name: "Acme",
+        type: "company",
+        age: 90,
       });
+      expect(graph.query().where("type", "=", "robot").first()).toBeNull();
+    });
 
-      it("should traverse with bodies and correctly track edges", () => {
-        const results = graph.traverse("user-1", {
-          withBodies: true,
-          outbound: true,
-        });
+    it("should bind values and escape keys", () => {
+      const { sql, bindings } = query()
+        .where("type", "=", "user' OR 1=1 --")
+        .and("it's", "=", 1)
+        .limit(5)
+        .toSQL();
+
+      expect(sql).toBe(
+        `SELECT body FROM nodes WHERE json_extract(body, '$.type') = ? AND json_extract(body, '$."it''s"') = ? LIMIT ?`,
+      );
+      expect(bindings).toEqual(["user' OR 1=1 --", 1, 5]);
+      expect(
+        graph.query().where("type", "=", "user' OR 1=1 --").all(),
+      ).toEqual([]);
+    });
 
-        expect(results.length).toBeGreaterThan(0);
+    it("should reject keys that cannot be escaped", () => {
+      expect(() => query().where('a"b', "=", 1).toSQL()).toThrow(
+        ValidationError,
+      );
+      expect(() =>
+        buildSearchQuery({ tree: true, key: 'a"b' }),
+      ).toThrow(ValidationError);
+    });
 
-        // Check nodes are found
-        const aliceNode = results.find(
-          (r) => (r.node?.body as any)?.name === "Alice",
-        );
-        expect(aliceNode).toBeDefined();
+    it("should throw DatabaseError when run without a graph", () => {
+      expect(() => query().all()).toThrow(DatabaseError);
+    });
+  });
 
-        // Check edges maintain correct source/target at all depths
-        const edges = results.filter((r) => r.edge).map((r) => r.edge!);
+  describe("Pagination", () => {
+    beforeEach(() => {
+      const names = ["Eve", "Bob", "Dave", "Alice", "Carol", "Bob"];
+      graph.addNodes(
+        names.map((name, i) => ({ name, rank: i % 2 })),
+        names.map((_, i) => `user-${i + 1}`),
+      );
+    });
 
-        // Direct edges from user-1
-        const user1ToUser2 = edges.find(
-          (e) => e.source === "user-1" && e.target === "user-2",
-        );
-        expect(user1ToUser2).toBeDefined();
+    const ids = (nodes: object[]) => nodes.map((n: any) => n.id);
 
-        const user1ToProject = edges.find(
-          (e) => e.source === "user-1" && e.target === "project-1",
-        );
-        expect(user1ToProject).toBeDefined();
+    it("should order by a body key with id as tie-breaker", () => {
+      const results = graph.findNodes({ orderBy: [{ key: "name" }] });
 
-        // Edges at depth 2 should maintain correct source/target
-        const user2ToUser3 = edges.find(
-          (e) => e.source === "user-2" && e.target === "user-3",
-        );
-        expect(user2ToUser3).toBeDefined();
+      expect(ids(results)).toEqual([
+        "user-4",
+        "user-2",
+        "user-6",
+        "user-5",
+        "user-3",
+        "user-1",
+      ]);
+    });
 
-        const projectToUser3 = edges.find(
-          (e) => e.source === "project-1" && e.target === "user-3",
-        );
-        expect(projectToUser3).toBeDefined();
+    it("should page with limit and offset", () => {
+      const page = graph.findNodes({
+        orderBy: [{ key: "name", direction: "DESC" }],
+        limit: 2,
+        offset: 1,
+      });
 
-        // Edge at depth 3
-        const user3ToUser4 = edges.find(
-          (e) => e.source === "user-3" && e.target === "user-4",
+      expect(page.map((n: any) => n.name)).toEqual(["Dave", "Carol"]);
+      expect(graph.findNodes({ offset: 5 })).toHaveLength(1);
+    });
+
+    it("should page with a keyset cursor", () => {
+      const seen: string[] = [];
+      let cursor: string | undefined;
+      do {
+        const page = graph
+          .query()
+          .orderBy("rank", "DESC")
+          .orderBy("name")
+          .limit(4);
+        const nodes = (cursor ? page.after(cursor) : page).all();
+        seen.push(...ids(nodes));
+        cursor = nodes.length === 4 ? (nodes[3] as any).id : undefined;
+      } while (cursor);
+
+      expect(seen).toEqual([
+        "user-4",
+        "user-2",
+        "user-6",
+        "user-5",
+        "user-3",
+        "user-1",
+      ]);
+    });
+
+    it("should page past cursors whose sort key is missing", () => {
+      const sparse = createGraph();
+      sparse.addNodes([
+        { id: "a" },
+        { id: "b" },
+        { id: "c", n: 1 },
+        { id: "d", n: 2 },
+      ]);
+
+      expect(
+        ids(sparse.findNodes({ orderBy: [{ key: "n" }], after: "b" })),
+      ).toEqual(["c", "d"]);
+      expect(
+        ids(sparse.findNodes({ orderBy: [{ key: "n" }], after: "a" })),
+      ).toEqual(["b", "c", "d"]);
+      expect(
+        ids(
+          sparse.findNodes({
+            orderBy: [{ key: "n", direction: "DESC" }],
+            after: "c",
+          }),
+        ),
+      ).toEqual(["b", "a"]);
+      expect(
+        ids(
+          sparse.findNodes({
+            orderBy: [{ key: "n", direction: "DESC" }],
+            after: "b",
+          }),
+        ),
+      ).toEqual(["a"]);
+    });
+
+    it("should continue every ordering from every cursor", () => {
+      const sparse = createGraph();
+      sparse.addNodes([
+        { id: "a", n: 1, m: "x" },
+        { id: "b", n: 1 },
+        { id: "c", m: "y" },
+        { id: "d" },
+        { id: "e", n: 2, m: "x" },
+        { id: "f", n: 1, m: "x" },
+        { id: "g", m: "x" },
+      ]);
+
+      for (const orderBy of [
+        [{ key: "n" }],
+        [{ key: "n", direction: "DESC" as const }],
+        [{ key: "n" }, { key: "m" }],
+        [
+          { key: "n", direction: "DESC" as const },
+          { key: "m", direction: "DESC" as const },
+        ],
+        [{ key: "n" }, { key: "m", direction: "DESC" as const }],
+      ]) {
+        const all = ids(sparse.findNodes({ orderBy }));
+        for (const [i, cursor] of all.entries()) {
+          expect(ids(sparse.findNodes({ orderBy, after: cursor }))).toEqual(
+            all.slice(i + 1),
+          );
+        }
+      }
+    });
+
+    it("should throw NotFoundError for an unknown cursor", () => {
+      expect(() => graph.findNodes({ after: "missing" })).toThrow(
+        NotFoundError,
+      );
+    });
+
+    it("should throw ValidationError for invalid limit or offset", () => {
+      expect(() => graph.findNodes({ limit: -1 })).toThrow(ValidationError);
+      expect(() => graph.findNodes({ offset: 1.5 })).toThrow(ValidationError);
+    });
+
+    describe("countNodes", () => {
+      it("should count matching nodes ignoring pagination", () => {
+        expect(graph.countNodes()).toBe(6);
+        expect(
+          graph.countNodes({
+            filters: [{ key: "name", predicate: "=", value: "Bob" }],
+            limit: 1,
+          }),
+        ).toBe(2);
+        expect(graph.query().where("rank", "=", 1).count()).toBe(3);
+      });
+
+      it("should accept raw clause bindings", () => {
+        const count = graph.countNodes(
+          { searchClauses: [`json_extract(body, '$.rank') = ?`] },
+          [0],
         );
-        expect(user3ToUser4).toBeDefined();
+        expect(count).toBe(3);
       });
+    });
+  });
 
-      it("should traverse inbound", () => {
-        const results = graph.traverse("user-3", { inbound: true });
+  describe("Indexes", () => {
+    it("should create, list and drop expression indexes", () => {
+      const name = graph.createIndex("type");
+      graph.createIndex("address.city");
+      graph.createIndex("type", { target: "edges" });
+
+      expect(name).toBe("idx_nodes_type");
+      expect(graph.listIndexes()).toEqual([
+        { name: "idx_edges_type", target: "edges", key: "type", unique: false },
+        {
+          name: expect.stringMatching(/^idx_nodes_address_city_[0-9a-f]+$/),
+          target: "nodes",
+          key: "address.city",
+          unique: false,
+        },
+        { name: "idx_nodes_type", target: "nodes", key: "type", unique: false },
+      ]);
+
+      graph.dropIndex("address.city");
+      graph.dropIndex("type", { target: "edges" });
+      expect(graph.listIndexes().map((i) => i.name)).toEqual([
+        "idx_nodes_type",
+      ]);
+    });
 
-        expect(results.length).toBeGreaterThan(0);
-        expect(results.some((r) => r.node?.identifier === "user-3")).toBe(true);
-      });
+    it("should throw NotFoundError when dropping an unknown index", () => {
+      expect(() => graph.dropIndex("type")).toThrow(NotFoundError);
+    });
 
-      it("should traverse bidirectional", () => {
-        const results = graph.traverse("user-2", {
-          inbound: true,
-          outbound: true,
-        });
+    it("should be used by query builder filters and ordering", () => {
+      const dir = mkdtempSync(join(tmpdir(), "simple-graph-"));
+      const file = join(dir, "indexed.db");
+      try {
+        createGraph(file).createIndex("type");
+        const db = new Database(file);
+
+        const plan = (q: ReturnType<typeof query>) => {
+          const { sql, bindings } = q.toSQL();
+          return (db.prepare(`EXPLAIN QUERY PLAN ${sql}`).all(...bindings) as any[])
+            .map((row) => row.detail)
+            .join("\n");
+        };
 
-        expect(results.length).toBeGreaterThan(0);
+        expect(plan(query().where("type", "=", "user"))).toContain(
+          "USING INDEX idx_nodes_type",
+        );
+        expect(plan(query().orderBy("type").limit(10))).toContain(
+          "USING INDEX idx_nodes_type",
+        );
+        expect(
+          plan(query().orderBy("type", "DESC").after("user-1").limit(10)),
+        ).toContain("SEARCH nodes USING INDEX idx_nodes_type (<expr><?)");
+        db.close();
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it("should enforce unique indexes as ConstraintError", () => {
+      graph.createIndex("email", { unique: true });
+      graph.addNode({ email: "a@example.com" }, "user-1");
+
+      expect(() => {
+        graph.addNode({ email: "a@example.com" }, "user-2");
+      }).toThrow("Duplicate value for unique key 'email'");
+      expect(() => {
+        graph.addNode({ email: "a@example.com" }, "user-1");
+      }).toThrow(ConstraintError);
+      expect(graph.listIndexes()[0]?.unique).toBe(true);
+    });
+
+    it("should reject unique indexes over duplicate data", () => {
+      graph.addNode({ email: "a@example.com" }, "user-1");
+      graph.addNode({ email: "a@example.com" }, "user-2");
+
+      expect(() => graph.createIndex("email", { unique: true })).toThrow(
+        ConstraintError,
+      );
+    });
+  });
+
+  describe("Constraints", () => {
+    it("should enforce unique keys within a scope", () => {
+      graph.createConstraint("email", {
+        kind: "unique",
+        where: { type: "user" },
+      });
+      graph.addNode({ type: "user", email: "a@example.com" }, "user-1");
+      graph.addNode({ type: "team", email: "a@example.com" }, "team-1");
+
+      expect(() => {
+        graph.addNode({ type: "user", email: "a@example.com" }, "user-2");
+      }).toThrow("Duplicate value for unique key 'email'");
+      expect(() => {
+        graph.addNodes(
+          [
+            { type: "user", email: "b@example.com" },
+            { type: "user", email: "b@example.com" },
+          ],
+          ["user-3", "user-4"],
+        );
+      }).toThrow(ConstraintError);
+      expect(graph.findNode("user-3")).toBeNull();
+    });
+
+    it("should enforce required keys on every write path", () => {
+      graph.createConstraint("name", {
+        kind: "required",
+        where: { type: "user" },
+      });
+      graph.addNode({ type: "user", name: "Alice" }, "user-1");
+      graph.addNode({ type: "team" }, "team-1");
+
+      expect(() => graph.addNode({ type: "user" }, "user-2")).toThrow(
+        "Missing required key 'name'",
+      );
+      expect(() =>
+        graph.addNodes([{ type: "user", name: null }], ["user-3"]),
+      ).toThrow(ConstraintError);
+      expect(() => graph.updateNodeBody("user-1", { type: "user" })).toThrow(
+        "Missing required key 'name'",
+      );
+      expect(() => graph.upsertNode("user-4", { type: "user" })).toThrow(
+        ConstraintError,
+      );
+
+      graph.upsertNode("user-1", { active: true });
+      expect(graph.findNode("user-1")).toEqual({
+        id: "user-1",
+        type: "user",
+        name: "Alice",
+        active: true,
+      });
+    });
+
+    it("should reject constraints that existing data violates", () => {
+      graph.addNode({ type: "user" }, "user-1");
+      graph.addNode({ type: "user" }, "user-2");
+      graph.updateNodeBody("user-2", { type: "user", email: "x" });
+      graph.addNode({ type: "user", email: "x" }, "user-3");
+
+      expect(() =>
+        graph.createConstraint("name", { kind: "required" }),
+      ).toThrow(ConstraintError);
+      expect(() => graph.createConstraint("email", { kind: "unique" })).toThrow(
+        ConstraintError,
+      );
+      expect(graph.listConstraints()).toEqual([]);
+    });
+
+    it("should list and drop constraints", () => {
+      graph.createConstraint("name", { kind: "required" });
+      graph.createConstraint("email", {
+        kind: "unique",
+        where: { type: "user" },
+      });
+
+      expect(graph.listConstraints()).toEqual([
+        {
+          name: expect.stringMatching(/^req_nodes_name_/),
+          kind: "required",
+          key: "name",
+          where: {},
+        },
+        {
+          name: expect.stringMatching(/^uq_nodes_email_/),
+          kind: "unique",
+          key: "email",
+          where: { type: "user" },
+        },
+      ]);
+
+      graph.dropConstraint("name", { kind: "required" });
+      graph.addNode({}, "anonymous");
+      expect(graph.listConstraints()).toHaveLength(1);
+      expect(() => graph.dropConstraint("name", { kind: "required" })).toThrow(
+        NotFoundError,
+      );
+    });
+  });
+
+  describe("Schemas", () => {
+    const userSchema = {
+      type: "object" as const,
+      required: ["name", "email"],
+      properties: {
+        name: { type: "string" as const, minLength: 1 },
+        email: { type: "string" as const, pattern: "^[^@]+@[^@]+$" },
+        age: { type: "integer" as const, minimum: 0 },
+        tags: { type: "array" as const, items: { type: "string" as const } },
+        address: {
+          type: "object" as const,
+          properties: { city: { type: "string" as const } },
+        },
+      },
+    };
+
+    const validationError = (fn: () => void): ValidationError => {
+      try {
+        fn();
+      } catch (error) {
+        expect(error).toBeInstanceOf(ValidationError);
+        return error as ValidationError;
+      }
+      throw new Error("Expected a ValidationError");
+    };
+
+    beforeEach(() => {
+      graph.registerNodeSchema("user", userSchema);
+    });
+
+    it("should validate nodes of the registered type only", () => {
+      graph.addNode(
+        { type: "user", name: "Alice", email: "alice@example.com" },
+        "user-1",
+      );
+      graph.addNode({ type: "team" }, "team-1");
+
+      const error = validationError(() =>
+        graph.addNode({ type: "user", name: "Bob" }, "user-2"),
+      );
+      expect(error.path).toBe("$.email");
+      expect(graph.findNode("user-2")).toBeNull();
+    });
+
+    it("should report the path of nested violations", () => {
+      const base = { type: "user", name: "Alice", email: "a@example.com" };
+
+      expect(
+        validationError(() =>
+          graph.addNode({ ...base, tags: ["a", 2] }, "user-1"),
+        ).path,
+      ).toBe("$.tags[1]");
+      expect(
+        validationError(() =>
+          graph.addNode({ ...base, address: { city: 7 } }, "user-1"),
+        ).path,
+      ).toBe("$.address.city");
+      expect(
+        validationError(() => graph.addNode({ ...base, age: 1.5 }, "user-1"))
+          .message,
+      ).toBe("Expected integer, got number at $.age");
+    });
+
+    it("should enforce schemas on every node write path", () => {
+      graph.addNode(
+        { type: "user", name: "Alice", email: "alice@example.com" },
+        "user-1",
+      );
+
+      validationError(() =>
+        graph.addNodes(
+          [
+            { type: "user", name: "Bob", email: "bob@example.com" },
+            { type: "user" },
+          ],
+          ["user-2", "user-3"],
+        ),
+      );
+      expect(graph.findNode("user-2")).toBeNull();
+
+      validationError(() =>
+        graph.updateNodeBody("user-1", { type: "user", name: "" }),
+      );
+      validationError(() => graph.upsertNode("user-1", { age: -1 }));
+      validationError(() => graph.upsertNode("user-4", { type: "user" }));
+    });
+
+    it("should validate edges by their property type", () => {
+      graph.addNode({ name: "A" }, "a");
+      graph.addNode({ name: "B" }, "b");
+      graph.registerEdgeSchema("follows", (properties) =>
+        typeof properties.since === "number"
+          ? true
+          : { path: "$.since", message: "since must be a year" },
+      );
+
+      const id = graph.connectNodesWithProperties("a", "b", {
+        type: "follows",
+        since: 2024,
+      });
+      expect(
+        validationError(() =>
+          graph.connectNodesWithProperties("a", "b", { type: "follows" }),
+        ).path,
+      ).toBe("$.since");
+      validationError(() =>
+        graph.bulkConnectNodesWithProperties(
+          ["a"],
+          ["b"],
+          [{ type: "follows" }],
+        ),
+      );
+      validationError(() => graph.updateEdge(id, { type: "follows" }));
+      validationError(() =>
+        graph.updateEdgeProperties("a", "b", { type: "follows", since: "x" }),
+      );
+      graph.connectNodes("a", "b");
+
+      expect(graph.connectionsOut("a")).toHaveLength(2);
+    });
+
+    it("should validate edges by their edge type", () => {
+      graph.addNode({ name: "A" }, "a");
+      graph.addNode({ name: "B" }, "b");
+      graph.registerEdgeSchema("follows", (properties) =>
+        typeof properties.since === "number" ? true : "since is required",
+      );
+
+      validationError(() =>
+        graph.connectNodes("a", "b", undefined, { type: "follows" }),
+      );
+      const id = graph.connectNodesWithProperties(
+        "a",
+        "b",
+        { since: 2024 },
+        undefined,
+        { type: "follows" },
+      );
+      validationError(() => graph.updateEdge(id, {}));
+      validationError(() => graph.updateEdgeProperties("a", "b", {}));
+
+      const plain = graph.connectNodes("b", "a");
+      validationError(() => graph.setEdgeType(plain, "follows"));
+      expect(graph.findEdge(plain)!.type).toBeUndefined();
+    });
+
+    it("should support custom type keys and unregistering", () => {
+      graph.registerNodeSchema("person", () => "Nope", { typeKey: "kind" });
+      expect(
+        validationError(() => graph.addNode({ kind: "person" }, "p-1")).message,
+      ).toBe("Nope at $");
+
+      graph.unregisterNodeSchema("person", { typeKey: "kind" });
+      graph.unregisterNodeSchema("user");
+      graph.addNode({ kind: "person" }, "p-1");
+      graph.addNode({ type: "user" }, "user-1");
+      expect(graph.countNodes()).toBe(2);
+    });
+  });
+
+  describe("Typed Graphs", () => {
+    type Nodes = {
+      user: { name: string; age: number; address?: { city: string } };
+      team: { title: string };
+    };
+    type Edges = {
+      member_of: { role: string };
+    };
+
+    it("should type bodies and properties by their type label", () => {
+      const typed = createGraph<Nodes, Edges>();
+      typed.addNode({ type: "user", name: "Alice", age: 30 }, "user-1");
+      typed.addNode({ type: "team", title: "Core" }, "team-1");
+      typed.connectNodesWithProperties("user-1", "team-1", {
+        type: "member_of",
+        role: "lead",
+      });
+
+      // Compile-time checks only; never called
+      const invalidWrites = () => {
+        // @ts-expect-error -- teams have no age
+        typed.addNode({ type: "team", title: "Ops", age: 3 }, "team-2");
+        // @ts-expect-error -- unknown edge type
+        typed.connectNodesWithProperties("user-1", "team-1", { type: "likes" });
+      };
+      expect(invalidWrites).toBeFunction();
+
+      const node = typed.findNode("user-1");
+      const name: string | undefined =
+        node?.type === "user" ? node.name : undefined;
+      expect(name).toBe("Alice");
+
+      const role: string | undefined =
+        typed.connectionsOut("user-1")[0]?.properties.role;
+      expect(role).toBe("lead");
+
+      const titles: string[] = typed
+        .query()
+        .where("type", "=", "team")
+        .all()
+        .map((n) => (n.type === "team" ? n.title : ""));
+      expect(titles).toEqual(["Core"]);
+    });
+
+    it("should check query keys against the body type", () => {
+      const typed = createGraph<Nodes, Edges>();
+      typed.addNode(
+        { type: "user", name: "Bob", age: 40, address: { city: "Oslo" } },
+        "user-2",
+      );
+
+      expect(typed.query().where("address.city", "=", "Oslo").count()).toBe(1);
+      expect(typed.query().orderBy("age").first()?.id).toBe("user-2");
+      // @ts-expect-error -- not a key of any node type
+      expect(typed.query().where("email", "=", "x").count()).toBe(0);
+    });
+  });
+
+  describe("Import and Export", () => {
+    beforeEach(() => {
+      graph.addNode({
+        id: "a",
+        name: "Alice",
+        age: 30,
+        score: 1.5,
+        active: true,
+        tags: ["x", "<y>"],
+      });
+      graph.addNode({ id: 2, name: "Bob & Co", nested: { deep: [1, null] } });
+      graph.addNode({ id: "c" });
+      graph.connectNodesWithProperties(
+        "a",
+        2,
+        { type: "knows", weight: 3 },
+        "e1",
+      );
+      graph.connectNodes(2, "c", "e2", { type: "owns" });
+      graph.addLabels("a", ["Person", "Admin"]);
+    });
+
+    for (const format of ["graphml", "gexf", "json-graph"] as const) {
+      it(`should round-trip nodes and edges through ${format}`, () => {
+        const data = graph.exportGraph(format);
+        const copy = createGraph();
+        const result = copy.importGraph(data, format);
+
+        expect(result.nodes).toEqual({ added: 3, updated: 0, skipped: 0 });
+        expect(result.edges).toEqual({ added: 2, updated: 0, skipped: 0 });
+        expect(copy.findNode("a")).toEqual(graph.findNode("a"));
+        expect(copy.findNode(2)).toEqual({
+          id: 2,
+          name: "Bob & Co",
+          nested: { deep: [1, null] },
+        });
+        expect(copy.findNode("c")).toEqual({ id: "c" });
+        expect(copy.findEdge("e1")).toEqual(graph.findEdge("e1"));
+        expect(copy.findEdge("e2")).toEqual(graph.findEdge("e2"));
+        expect(copy.findEdge("e2")!.type).toBe("owns");
+        expect(copy.nodeLabels("a")).toEqual(graph.nodeLabels("a"));
+        expect(copy.nodeLabels(2)).toEqual([]);
+      });
+    }
+
+    it("should export only the requested nodes and the edges between them", () => {
+      const data = JSON.parse(
+        graph.exportGraph("json-graph", { nodeIds: ["a", 2] }),
+      );
+
+      expect(Object.keys(data.graph.nodes).sort()).toEqual(["2", "a"]);
+      expect(data.graph.edges.map((e: any) => e.id)).toEqual(["e1"]);
+    });
+
+    it("should read JSON Graph v1 documents and generate missing edge ids", () => {
+      const copy = createGraph();
+      copy.importGraph(
+        JSON.stringify({
+          graph: {
+            nodes: [{ id: "x", label: "X" }, { id: "y" }],
+            edges: [{ source: "x", target: "y", relation: "likes" }],
+          },
+        }),
+        "json-graph",
+      );
+
+      expect(copy.findNode("x")).toEqual({ id: "x", label: "X" });
+      expect(copy.connectionsOut("x")).toEqual([
+        {
+          id: expect.any(String),
+          source: "x",
+          target: "y",
+          properties: { type: "likes" },
+        },
+      ]);
+    });
+
+    it("should read GraphML written by other tools", () => {
+      const copy = createGraph();
+      copy.importGraph(
+        `<?xml version="1.0"?>
+        <!-- exported elsewhere -->
+        <graphml xmlns="http://graphml.graphdrawing.org/xmlns">
+          <key id="d0" for="node" attr.name="weight" attr.type="int"/>
+          <graph edgedefault="directed">
+            <node id="n0"><data key="d0">7</data></node>
+            <node id="n1"/>
+            <edge source="n0" target="n1"/>
+          </graph>
+        </graphml>`,
+        "graphml",
+      );
+
+      expect(copy.findNode("n0")).toEqual({ id: "n0", weight: 7 });
+      expect(copy.connectionsOut("n0")).toHaveLength(1);
+    });
+
+    it("should throw on conflicts by default and import nothing", () => {
+      const data = graph.exportGraph("json-graph");
+      graph.removeEdge("e2");
+
+      expect(() => graph.importGraph(data, "json-graph")).toThrow(
+        ConstraintError,
+      );
+      expect(graph.findEdge("e2")).toBeNull();
+    });
+
+    it("should apply the skip, replace and merge conflict policies", () => {
+      const data = graph.exportGraph("gexf");
+      graph.updateNodeBody("a", { name: "Changed", extra: true });
+      graph.updateEdge("e1", { note: "kept?" });
+
+      expect(
+        graph.importGraph(data, "gexf", { onConflict: "skip" }).nodes,
+      ).toEqual({
+        added: 0,
+        updated: 0,
+        skipped: 3,
+      });
+      expect(graph.findNode("a")).toEqual({
+        id: "a",
+        name: "Changed",
+        extra: true,
+      });
+
+      graph.importGraph(data, "gexf", { onConflict: "merge" });
+      expect(graph.findNode("a")).toMatchObject({ name: "Alice", extra: true });
+      expect(graph.findEdge("e1")?.properties).toEqual({
+        note: "kept?",
+        type: "knows",
+        weight: 3,
+      });
+
+      const result = graph.importGraph(data, "gexf", { onConflict: "replace" });
+      expect(result.edges).toEqual({ added: 0, updated: 2, skipped: 0 });
+      expect(graph.findNode("a")).not.toHaveProperty("extra");
+      expect(graph.findEdge("e1")?.properties).toEqual({
+        type: "knows",
+        weight: 3,
+      });
+    });
+
+    it("should validate imported data against registered schemas", () => {
+      const copy = createGraph();
+      copy.registerNodeSchema("person", { required: ["name"] });
+      const data = JSON.stringify({
+        graph: { nodes: { p: { metadata: { type: "person" } } } },
+      });
+
+      expect(() => copy.importGraph(data, "json-graph")).toThrow(
+        ValidationError,
+      );
+      expect(copy.findNode("p")).toBeNull();
+    });
+
+    it("should reject malformed documents and unknown formats", () => {
+      expect(() => graph.importGraph("<graphml><graph>", "graphml")).toThrow(
+        ValidationError,
+      );
+      expect(() => graph.importGraph("{", "json-graph")).toThrow(
+        ValidationError,
+      );
+      expect(() => graph.exportGraph("csv" as any)).toThrow(ValidationError);
+    });
+  });
+
+  describe("Bulk Loading", () => {
+    const stream = (text: string) => new Blob([text]).stream();
+
+    it("should load NDJSON nodes in chunks and report rejected rows", async () => {
+      graph.addNode({ id: "n1", name: "Existing" });
+      const report = await graph.loadNodes(
+        stream(
+          '{"id":"n1","name":"Dup"}\n{"id":"n2","age":3}\n\nnot json\n[1]\n{"name":"no id"}\n{"id":"n3"}',
+        ),
+        { chunkSize: 2 },
+      );
+
+      expect(report.added).toBe(2);
+      expect(report.rejected).toEqual([
+        { line: 1, message: "Duplicate node ID: n1" },
+        { line: 4, message: "Invalid JSON" },
+        { line: 5, message: "Row must be a JSON object" },
+        { line: 6, message: "Missing identifier" },
+      ]);
+      expect(graph.findNode("n1")).toEqual({ id: "n1", name: "Existing" });
+      expect(graph.findNode("n2")).toEqual({ id: "n2", age: 3 });
+      expect(graph.findNode("n3")).toEqual({ id: "n3" });
+    });
+
+    it("should apply skip, replace and merge policies to duplicate ids", async () => {
+      graph.addNode({ id: "n1", name: "Existing", keep: true });
+      const rows = '{"id":"n1","name":"New"}\n';
+
+      expect(
+        await graph.loadNodes(stream(rows), { onConflict: "skip" }),
+      ).toMatchObject({ skipped: 1 });
+      expect(graph.findNode("n1")).toEqual({
+        id: "n1",
+        name: "Existing",
+        keep: true,
+      });
+
+      expect(
+        await graph.loadNodes(stream(rows), { onConflict: "merge" }),
+      ).toMatchObject({ updated: 1 });
+      expect(graph.findNode("n1")).toEqual({
+        id: "n1",
+        name: "New",
+        keep: true,
+      });
+
+      await graph.loadNodes(stream(rows), { onConflict: "replace" });
+      expect(graph.findNode("n1")).toEqual({ id: "n1", name: "New" });
+    });
+
+    it("should load CSV files with typed and quoted cells", async () => {
+      const dir = mkdtempSync(join(tmpdir(), "simple-graph-"));
+      const file = join(dir, "nodes.csv");
+      try {
+        await Bun.write(
+          file,
+          'id,name,age,zip,note\r\nu1,Alice,30,"02134","says ""hi"",\nthen leaves"\r\nu2,Bob,,01234,\r\nu3,short\r\n',
+        );
+        const report = await graph.loadNodes(file);
+
+        expect(report.added).toBe(2);
+        expect(report.rejected).toEqual([
+          { line: 5, message: "Expected 5 columns, got 2" },
+        ]);
+        expect(graph.findNode("u1")).toEqual({
+          id: "u1",
+          name: "Alice",
+          age: 30,
+          zip: "02134",
+          note: 'says "hi",\nthen leaves',
+        });
+        expect(graph.findNode("u2")).toEqual({
+          id: "u2",
+          name: "Bob",
+          zip: "01234",
+        });
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it("should load edges from CSV columns or nested NDJSON properties", async () => {
+      graph.addNodes([{ id: "a" }, { id: "b" }]);
+      const csv = await graph.loadEdges(
+        stream("id,source,target,weight\ne1,a,b,2\ne2,a,missing,1\n,b,a,5\n"),
+        { format: "csv" },
+      );
+
+      expect(csv.added).toBe(2);
+      expect(csv.rejected).toEqual([
+        { line: 3, message: "Source or target node does not exist" },
+      ]);
+      expect(graph.findEdge("e1")).toEqual({
+        id: "e1",
+        source: "a",
+        target: "b",
+        properties: { weight: 2 },
+      });
+      expect(graph.connectionsOut("b")[0]?.properties).toEqual({ weight: 5 });
+
+      const ndjson = await graph.loadEdges(
+        stream(
+          '{"id":"e1","source":"a","target":"b","properties":{"label":"x"}}\n{"source":"a"}',
+        ),
+        { onConflict: "merge" },
+      );
+      expect(ndjson).toMatchObject({
+        updated: 1,
+        rejected: [{ line: 2, message: "Source and target IDs are required" }],
+      });
+      expect(graph.findEdge("e1")?.properties).toEqual({
+        weight: 2,
+        label: "x",
+      });
+    });
+
+    it("should load edge types from a type column", async () => {
+      graph.addNodes([{ id: "a" }, { id: "b" }]);
+      await graph.loadEdges(
+        stream("id,source,target,type,weight\ne1,a,b,knows,2\ne2,b,a,,1\n"),
+        { format: "csv" },
+      );
+
+      expect(graph.findEdge("e1")).toEqual({
+        id: "e1",
+        source: "a",
+        target: "b",
+        properties: { weight: 2 },
+        type: "knows",
+      });
+      expect(graph.findEdge("e2")!.type).toBeUndefined();
+    });
+
+    it("should validate options", async () => {
+      await expect(
+        graph.loadNodes(stream(""), { chunkSize: 0 }),
+      ).rejects.toThrow(ValidationError);
+      await expect(
+        graph.loadNodes(stream(""), { format: "xml" as any }),
+      ).rejects.toThrow(ValidationError);
+      await expect(
+        graph.loadNodes(stream(""), { onConflict: "ignore" as any }),
+      ).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe("Rendering", () => {
+    beforeEach(() => {
+      graph.addNode({ id: "a", type: "user", name: 'Ann "A"' });
+      graph.addNode({ id: 2, type: "team", title: "Core" });
+      graph.connectNodesWithProperties("a", 2, { role: "lead" }, "e1");
+    });
+
+    it("should render traversal results as DOT with labels and styles", () => {
+      const data = graph.traverse("a", { withBodies: true, outbound: true });
+      const dot = toDot(data, {
+        nodeLabel: (node) =>
+          (node.body as any).name ?? (node.body as any).title,
+        edgeLabel: "role",
+        nodeStyles: { user: { shape: "box" } },
+      });
+
+      expect(dot).toBe(
+        [
+          "digraph G {",
+          "  rankdir=LR;",
+          '  "a" [label="Ann \\"A\\"", shape="box"];',
+          '  "2" [label="Core"];',
+          '  "a" -> "2" [label="lead"];',
+          "}",
+          "",
+        ].join("\n"),
+      );
+    });
+
+    it("should render Mermaid flowcharts with escaped labels and type classes", () => {
+      const data = graph.traverse("a", { withBodies: true, outbound: true });
+      const mermaid = toMermaid(data, {
+        nodeLabel: "name",
+        edgeLabel: "role",
+        direction: "TB",
+        nodeStyles: { team: { fill: "#eef" } },
+      });
+
+      expect(mermaid).toBe(
+        [
+          "flowchart TB",
+          '  n0["Ann #quot;A#quot;"]',
+          '  n1["2"]',
+          '  n0 -->|"lead"| n1',
+          "  classDef type0 fill:#eef",
+          "  class n1 type0",
+          "",
+        ].join("\n"),
+      );
+    });
+
+    it("should render endpoints of edges whose nodes are not in the list", () => {
+      const edge = graph.findEdge("e1")!;
+      expect(toMermaid([{ edge }])).toBe(
+        'flowchart LR\n  n0["a"]\n  n1["2"]\n  n0 --> n1\n',
+      );
+    });
+
+    it("should render the whole graph or a subgraph through exportGraph", () => {
+      graph.addNode({ id: "c" });
+      graph.connectNodes(2, "c");
+
+      expect(graph.exportGraph("dot", { nodeLabel: "name" })).toContain(
+        '"2" -> "c";',
+      );
+      expect(
+        graph.exportGraph("mermaid", { nodeIds: ["a", 2] }).split("\n"),
+      ).toEqual(["flowchart LR", '  n0["a"]', '  n1["2"]', "  n0 --> n1", ""]);
+    });
+  });
+
+  describe("Iterators", () => {
+    beforeEach(() => {
+      graph.addNodes([
+        { id: "a", type: "user", age: 30 },
+        { id: "b", type: "user", age: 20 },
+        { id: "c", type: "team" },
+      ]);
+      graph.connectNodesWithProperties("a", "b", { type: "knows" });
+      graph.connectNodesWithProperties("a", "c", { type: "member_of" });
+      graph.connectNodesWithProperties("b", "c", { type: "member_of" });
+    });
+
+    it("should iterate nodes matching a query lazily", () => {
+      const iterator = graph.iterateNodes(
+        query().where("type", "=", "user").orderBy("age"),
+      );
+
+      expect(iterator.next().value).toEqual({ id: "b", type: "user", age: 20 });
+      expect([...iterator]).toEqual([{ id: "a", type: "user", age: 30 }]);
+      expect([...graph.iterateNodes()]).toHaveLength(3);
+      expect([...graph.iterateNodes({ resultColumn: "id" })]).toEqual([
+        { id: "a" },
+        { id: "b" },
+        { id: "c" },
+      ]);
+    });
+
+    it("should allow stopping early", () => {
+      const seen: unknown[] = [];
+      for (const node of graph.iterateNodes()) {
+        seen.push(node);
+        break;
+      }
+
+      expect(seen).toHaveLength(1);
+      expect(graph.findNodes({})).toHaveLength(3);
+    });
+
+    it("should iterate edges by endpoint and properties", () => {
+      const ends = (filter: Parameters<typeof graph.iterateEdges>[0]) =>
+        [...graph.iterateEdges(filter)]
+          .map((e) => `${e.source}-${e.target}`)
+          .sort();
+
+      expect(ends({})).toEqual(["a-b", "a-c", "b-c"]);
+      expect(ends({ source: "a" })).toEqual(["a-b", "a-c"]);
+      expect(ends({ target: "c" })).toEqual(["a-c", "b-c"]);
+      expect(ends({ node: "b" })).toEqual(["a-b", "b-c"]);
+      expect(
+        ends({ node: "c", where: { type: "member_of" }, source: "b" }),
+      ).toEqual(["b-c"]);
+    });
+
+    it("should iterate traversals with the same results as traverse", () => {
+      const config = { withBodies: true, outbound: true, maxDepth: 1 };
+
+      expect([...graph.iterateTraversal("a", config)]).toEqual(
+        graph.traverse("a", config),
+      );
+      expect([...graph.iterateTraversal("a", { outbound: true })]).toHaveLength(
+        3,
+      );
+    });
+  });
+
+  describe("Change Events", () => {
+    beforeEach(() => {
+      graph.enableChangeLog();
+    });
+
+    it("should only log changes while enabled", () => {
+      const plain = createGraph();
+      plain.addNode({ id: "a" });
+      expect(plain.changesSince(0)).toEqual([]);
+      expect(() => plain.on("nodeAdded", () => {})).toThrow(ValidationError);
+
+      plain.enableChangeLog();
+      plain.addNode({ id: "b" });
+      plain.disableChangeLog();
+      plain.addNode({ id: "c" });
+      expect(plain.changesSince(0).map((change) => change.id)).toEqual(["b"]);
+    });
+
+    it("should notify listeners after each write", () => {
+      const events: string[] = [];
+      for (const type of [
+        "nodeAdded",
+        "nodeUpdated",
+        "nodeRemoved",
+        "edgeAdded",
+        "edgeUpdated",
+        "edgeRemoved",
+      ] as const) {
+        graph.on(type, (event) => events.push(`${event.type}:${event.id}`));
+      }
+
+      graph.addNodes([{ id: "a" }, { id: "b" }]);
+      graph.upsertNode("a", { name: "Alice" });
+      const edge = graph.connectNodes("a", "b");
+      graph.updateEdge(edge, { since: 2020 });
+      graph.removeNode("b");
+
+      expect(events).toEqual([
+        "nodeAdded:a",
+        "nodeAdded:b",
+        "nodeUpdated:a",
+        `edgeAdded:${edge}`,
+        `edgeUpdated:${edge}`,
+        `edgeRemoved:${edge}`,
+        "nodeRemoved:b",
+      ]);
+    });
+
+    it("should wait for transactions to commit and skip rolled back writes", () => {
+      const added: unknown[] = [];
+      graph.on("nodeAdded", (event) => added.push(event.data));
+
+      graph.transaction((tx) => {
+        tx.addNode({ id: "a" });
+        tx.addNode({ id: "b" });
+        expect(added).toEqual([]);
+      });
+      expect(added).toEqual([{ id: "a" }, { id: "b" }]);
+
+      expect(() =>
+        graph.transaction((tx) => {
+          tx.addNode({ id: "c" });
+          throw new Error("abort");
+        }),
+      ).toThrow("abort");
+      expect(() => graph.addNodes([{ id: "d" }, { id: "a" }])).toThrow(
+        ConstraintError,
+      );
+      expect(added).toHaveLength(2);
+    });
+
+    it("should keep delivering when a handler throws", () => {
+      const seen: string[] = [];
+      const failed: string[] = [];
+      graph.on(
+        "nodeAdded",
+        (event) => {
+          if (event.id === "x") throw new Error("handler failed");
+        },
+        {
+          onError: (error, event) =>
+            failed.push(`${event.id}: ${(error as Error).message}`),
+        },
+      );
+      graph.on("nodeAdded", (event) => seen.push(event.id));
+
+      expect(() => graph.addNodes([{ id: "x" }, { id: "y" }])).not.toThrow();
+      expect(seen).toEqual(["x", "y"]);
+      expect(failed).toEqual(["x: handler failed"]);
+      expect(graph.findNode("y")).not.toBeNull();
+    });
+
+    it("should stop notifying after unsubscribing", () => {
+      const events: unknown[] = [];
+      const unsubscribe = graph.on("nodeAdded", (event) => events.push(event));
+
+      graph.addNode({ id: "a" });
+      unsubscribe();
+      graph.addNode({ id: "b" });
+
+      expect(events).toHaveLength(1);
+      expect(() => graph.on("nodeChanged" as any, () => {})).toThrow(
+        ValidationError,
+      );
+    });
+
+    it("should deliver changes made by handlers exactly once", () => {
+      const seen: string[] = [];
+      graph.on("nodeAdded", (event) => {
+        seen.push(event.id);
+        if (event.id === "a") graph.addNode({ id: "audit-a" });
+      });
+
+      graph.addNode({ id: "a" });
+
+      expect(seen).toEqual(["a", "audit-a"]);
+    });
+
+    it("should emit events for streamed loads and imports", async () => {
+      const seen: string[] = [];
+      graph.on("nodeAdded", (event) => seen.push(event.id));
+
+      await graph.loadNodes(new Blob(['{"id":"a"}\n{"id":"b"}']).stream(), {
+        chunkSize: 1,
+      });
+      graph.importGraph(
+        JSON.stringify({ graph: { nodes: { c: {} } } }),
+        "json-graph",
+      );
+
+      expect(seen).toEqual(["a", "b", "c"]);
+    });
+
+    it("should keep a persistent, sequence-numbered change log", () => {
+      const dir = mkdtempSync(join(tmpdir(), "simple-graph-"));
+      const file = join(dir, "changes.db");
+      try {
+        const first = createGraph(file);
+        first.enableChangeLog();
+        first.addNode({ id: "a", name: "Alice" });
+        first.addNode({ id: "b" });
+        const edge = first.connectNodesWithProperties("a", "b", { w: 1 });
+
+        const changes = createGraph(file).changesSince(0);
+        expect(changes.map((c) => c.type)).toEqual([
+          "nodeAdded",
+          "nodeAdded",
+          "edgeAdded",
+        ]);
+        expect(changes[0]).toEqual({
+          seq: expect.any(Number),
+          type: "nodeAdded",
+          id: "a",
+          data: { id: "a", name: "Alice" },
+          timestamp: expect.stringMatching(/^\d{4}-\d\d-\d\dT/),
+        });
+        expect(changes[2]?.data).toEqual({
+          id: edge,
+          source: "a",
+          target: "b",
+          properties: { w: 1 },
+        });
+
+        const [, second] = changes;
+        expect(first.changesSince(second!.seq)).toEqual([changes[2]!]);
+        expect(first.changesSince(0, 1)).toEqual([changes[0]!]);
+
+        expect(first.pruneChanges(second!.seq)).toBe(2);
+        expect(first.changesSince(0)).toEqual([changes[2]!]);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe("History", () => {
+    const tick = () => {
+      Bun.sleepSync(3);
+      const now = new Date();
+      Bun.sleepSync(3);
+      return now;
+    };
+
+    it("should record nothing until history is enabled", () => {
+      graph.addNode({ id: "a", v: 1 });
+      graph.updateNodeBody("a", { v: 2 });
+
+      expect(graph.nodeHistory("a")).toEqual([]);
+
+      graph.enableHistory();
+      graph.enableHistory();
+      expect(graph.nodeHistory("a")).toEqual([
+        { version: 1, body: { id: "a", v: 2 }, timestamp: expect.any(String) },
+      ]);
+    });
+
+    it("should keep every node version including removals", () => {
+      graph.enableHistory();
+      graph.addNode({ id: "a", v: 1 });
+      graph.upsertNode("a", { v: 2 });
+      graph.removeNode("a");
+
+      expect(graph.nodeHistory("a").map((entry) => entry.body)).toEqual([
+        { id: "a", v: 1 },
+        { id: "a", v: 2 },
+        null,
+      ]);
+    });
+
+    it("should keep edge states", () => {
+      graph.enableHistory();
+      graph.addNodes([{ id: "a" }, { id: "b" }]);
+      const edge = graph.connectNodesWithProperties("a", "b", { w: 1 });
+      graph.updateEdge(edge, { w: 2 });
+      graph.removeEdge(edge);
+
+      expect(graph.edgeHistory(edge).map((entry) => entry.edge)).toEqual([
+        { id: edge, source: "a", target: "b", properties: { w: 1 } },
+        { id: edge, source: "a", target: "b", properties: { w: 2 } },
+        null,
+      ]);
+    });
+
+    it("should revert a node to an earlier version, restoring removed nodes", () => {
+      graph.enableHistory();
+      graph.addNode({ id: "a", name: "first" });
+      graph.updateNodeBody("a", { name: "second" });
+
+      graph.revertNode("a", 1);
+      expect(graph.findNode("a")).toEqual({ id: "a", name: "first" });
+      expect(graph.nodeHistory("a")).toHaveLength(3);
+
+      graph.removeNode("a");
+      graph.revertNode("a", 2);
+      expect(graph.findNode("a")).toEqual({ id: "a", name: "second" });
+
+      expect(() => graph.revertNode("a", 4)).toThrow(ValidationError);
+      expect(() => graph.revertNode("a", 99)).toThrow(NotFoundError);
+    });
+
+    it("should read the graph as it was at a point in time", () => {
+      graph.enableHistory();
+      graph.addNodes([
+        { id: "a", type: "user", name: "Ann" },
+        { id: "b", type: "user", name: "Bob" },
+      ]);
+      const edge = graph.connectNodesWithProperties("a", "b", {
+        role: "friend",
+      });
+      const before = tick();
+
+      graph.updateNodeBody("a", { type: "user", name: "Anna" });
+      graph.removeNode("b");
+      graph.addNode({ id: "c", type: "team" });
+      graph.connectNodes("a", "c");
+
+      const past = graph.asOf(before);
+      expect(past.timestamp).toBe(before.toISOString());
+      expect(past.findNode("a")).toEqual({
+        id: "a",
+        type: "user",
+        name: "Ann",
+      });
+      expect(past.findNode("b")).toEqual({
+        id: "b",
+        type: "user",
+        name: "Bob",
+      });
+      expect(past.findNode("c")).toBeNull();
+      expect(
+        past.findNodes(query().where("type", "=", "user").orderBy("name")),
+      ).toHaveLength(2);
+      expect(past.countNodes()).toBe(2);
+      expect(past.connections("a")).toEqual([
+        { id: edge, source: "a", target: "b", properties: { role: "friend" } },
+      ]);
+      expect(past.connectionsIn("b")).toHaveLength(1);
+      expect(past.connectionsOut("a")).toHaveLength(1);
+      expect(
+        past.traverse("a", { outbound: true }).map((d) => d.node?.identifier),
+      ).toEqual(["a", "b"]);
+
+      expect(graph.asOf(Date.now() + 1000).findNode("a")).toEqual({
+        id: "a",
+        type: "user",
+        name: "Anna",
+      });
+      expect(graph.asOf(0).findNode("a")).toBeNull();
+      expect(() => graph.asOf("not a date")).toThrow(ValidationError);
+    });
+
+    it("should stop recording when disabled but keep recorded versions", () => {
+      graph.enableHistory();
+      graph.addNode({ id: "a" });
+      graph.disableHistory();
+      graph.updateNodeBody("a", { changed: true });
+
+      expect(graph.nodeHistory("a")).toHaveLength(1);
+    });
+  });
+
+  describe("Algorithms", () => {
+    // a -> b -> c -> a is a cycle; c -> d -> e hangs off it; f is isolated
+    beforeEach(() => {
+      graph.addNodes(
+        ["a", "b", "c", "d", "e", "f"].map((id) => ({
+          id,
+          type: id === "f" ? "other" : "item",
+        })),
+      );
+      graph.bulkConnectNodesWithProperties(
+        ["a", "b", "c", "c", "d"],
+        ["b", "c", "a", "d", "e"],
+        [{}, {}, { kind: "back" }, {}, {}],
+      );
+    });
+
+    it("should find weakly and strongly connected components", () => {
+      expect(
+        algorithms.weaklyConnectedComponents(graph).map((c) => c.sort()),
+      ).toEqual([["a", "b", "c", "d", "e"], ["f"]]);
+
+      const strong = algorithms.stronglyConnectedComponents(graph);
+      expect(strong).toHaveLength(4);
+      expect(strong[0]!.sort()).toEqual(["a", "b", "c"]);
+    });
+
+    it("should restrict algorithms to a subgraph", () => {
+      expect(
+        algorithms.stronglyConnectedComponents(graph, {
+          edges: { kind: "back" },
+        }),
+      ).toHaveLength(6);
+      expect(
+        algorithms.weaklyConnectedComponents(graph, {
+          nodes: query().where("type", "=", "item").not("id", "=", "c"),
+        }),
+      ).toHaveLength(2);
+    });
+
+    it("should compute PageRank and write it back", () => {
+      const ranks = algorithms.pageRank(graph, { writeTo: "rank" });
+      const total = [...ranks.values()].reduce((sum, r) => sum + r, 0);
+
+      expect(total).toBeCloseTo(1, 6);
+      expect(ranks.get("c")!).toBeGreaterThan(ranks.get("f")!);
+      expect((graph.findNode("c") as any).rank).toBe(ranks.get("c"));
+      expect((graph.findNode("c") as any).type).toBe("item");
+      expect(() => algorithms.pageRank(graph, { damping: 2 })).toThrow(
+        ValidationError,
+      );
+    });
+
+    it("should keep numeric ids when writing results back", () => {
+      const numeric = createGraph();
+      numeric.addNode({}, 1);
+      numeric.addNode({}, 2);
+      numeric.connectNodes(1, 2);
+
+      const ranks = algorithms.pageRank(numeric, { writeTo: "rank" });
+      expect((numeric.findNode(1) as any).id).toBe(1);
+      expect((numeric.findNode(1) as any).rank).toBe(ranks.get("1"));
+    });
+
+    it("should compute degree and betweenness centrality", () => {
+      const out = algorithms.degreeCentrality(graph);
+      const all = algorithms.degreeCentrality(graph, { direction: "both" });
+      expect(out.get("c")).toBe(2);
+      expect(all.get("c")).toBe(3);
+      expect(
+        algorithms.degreeCentrality(graph, { normalized: true }).get("c"),
+      ).toBeCloseTo(2 / 5);
+
+      const betweenness = algorithms.betweennessCentrality(graph);
+      // d lies on every shortest path into e from a, b and c
+      expect(betweenness.get("d")).toBe(3);
+      expect(betweenness.get("f")).toBe(0);
+      expect(betweenness.get("c")).toBeGreaterThan(betweenness.get("a")!);
+    });
+
+    it("should detect cycles", () => {
+      expect(algorithms.findCycle(graph)).toEqual(["a", "b", "c"]);
+      expect(
+        algorithms.findCycle(graph, { nodes: query().not("id", "=", "a") }),
+      ).toBeNull();
+      expect(
+        algorithms.findCycle(graph, {
+          direction: "both",
+          nodes: query().not("id", "=", "a"),
+        }),
+      ).toBeNull();
+    });
+
+    it("should sort acyclic graphs topologically", () => {
+      expect(() => algorithms.topologicalSort(graph)).toThrow(ValidationError);
+
+      graph.disconnectNodes("c", "a");
+      const order = algorithms.topologicalSort(graph, { writeTo: "order" });
+      expect(order).toEqual(["a", "f", "b", "c", "d", "e"]);
+      expect(
+        algorithms.topologicalSort(graph, { direction: "inbound" }),
+      ).toEqual(["e", "f", "d", "c", "b", "a"]);
+      expect((graph.findNode("d") as any).order).toBe(4);
+    });
+  });
+
+  describe("Pattern Matching", () => {
+    beforeEach(() => {
+      graph.addNode({ type: "person", name: "Alice", age: 30 }, "alice");
+      graph.addNode({ type: "person", name: "Bob", age: 25 }, "bob");
+      graph.addNode({ type: "person", name: "Carol", age: 40 }, "carol");
+      graph.addNode({ type: "company", name: "Acme" }, "acme");
+      graph.connectNodesWithProperties(
+        "alice",
+        "bob",
+        { type: "knows", since: 2010 },
+        "e1",
+      );
+      graph.connectNodesWithProperties("bob", "carol", { type: "knows" }, "e2");
+      graph.connectNodesWithProperties(
+        "alice",
+        "acme",
+        { type: "works_at" },
+        "e3",
+      );
+      graph.connectNodesWithProperties(
+        "carol",
+        "acme",
+        { type: "works_at" },
+        "e4",
+      );
+    });
+
+    it("should match nodes and relationships by properties", () => {
+      expect(
+        graph.match(
+          "MATCH (p {type: 'person'})-[r {type: 'works_at'}]->(c) RETURN p.name, c.name AS company ORDER BY p.name",
+        ),
+      ).toEqual([
+        { "p.name": "Alice", company: "Acme" },
+        { "p.name": "Carol", company: "Acme" },
+      ]);
+
+      const [row] = graph.match("(a)-[r {since: 2010}]->(b) RETURN a, r");
+      expect(row!.a).toEqual({
+        type: "person",
+        name: "Alice",
+        age: 30,
+        id: "alice",
+      });
+      expect(row!.r).toEqual({
+        id: "e1",
+        source: "alice",
+        target: "bob",
+        properties: { type: "knows", since: 2010 },
+      });
+    });
+
+    it("should follow direction and share variables across patterns", () => {
+      expect(graph.match("(b {name: 'Bob'})<--(a) RETURN a.name")).toEqual([
+        { "a.name": "Alice" },
+      ]);
+      expect(
+        graph
+          .match("(b {name: 'Bob'})--(a) RETURN a.name ORDER BY a.name DESC")
+          .map((r) => r["a.name"]),
+      ).toEqual(["Carol", "Alice"]);
+      expect(
+        graph.match(
+          "(p)-->(x), (q)-->(x) WHERE p.name < q.name RETURN p.name, q.name, x.name",
+        ),
+      ).toEqual([{ "p.name": "Alice", "q.name": "Carol", "x.name": "Acme" }]);
+    });
+
+    it("should match variable-length relationships", () => {
+      expect(
+        graph.match(
+          "(a {name: $name})-[*1..3 {type: 'knows'}]->(f) RETURN f.name ORDER BY f.name",
+          {
+            name: "Alice",
+          },
+        ),
+      ).toEqual([{ "f.name": "Bob" }, { "f.name": "Carol" }]);
+      expect(
+        graph.match("(a {name: 'Alice'})-[*2]->(f) RETURN DISTINCT f.name"),
+      ).toEqual([{ "f.name": "Carol" }]);
+    });
+
+    it("should match unbounded relationships over cycles", () => {
+      for (let i = 0; i < 30; i++) {
+        graph.addNode({ ring: i }, `r${i}`);
+      }
+      for (let i = 0; i < 30; i++) {
+        graph.connectNodes(`r${i}`, `r${(i + 1) % 30}`);
+        graph.connectNodes(`r${i}`, `r${(i + 2) % 30}`);
+      }
+
+      expect(
+        graph.match("(a {ring: 0})-[*]->(b) RETURN DISTINCT b.ring"),
+      ).toHaveLength(30);
+      expect(
+        graph.match("(a {ring: 0})-[*20..]->(b) RETURN DISTINCT b.ring"),
+      ).toHaveLength(30);
+      expect(
+        graph.match("(a {ring: 0})-[*2..2]->(b) RETURN b.ring ORDER BY b.ring"),
+      ).toEqual([{ "b.ring": 2 }, { "b.ring": 3 }, { "b.ring": 4 }]);
+    });
+
+    it("should filter, page and bind parameters", () => {
+      expect(
+        graph.match(
+          "(p) WHERE p.name IN $names OR p.age IS NULL RETURN p.name ORDER BY p.name DESC SKIP 1 LIMIT 2",
+          { names: ["Bob", "Carol"] },
+        ),
+      ).toEqual([{ "p.name": "Bob" }, { "p.name": "Acme" }]);
+      expect(
+        graph.match(
+          "(p) WHERE NOT (p.age < 30 OR p.name ENDS WITH 'l') AND p.name CONTAINS 'i' RETURN p.name",
+        ),
+      ).toEqual([{ "p.name": "Alice" }]);
+
+      const { sql, bindings } = compilePattern("(p {age: $age}) RETURN p", {
+        age: 30,
+      });
+      expect(sql).toContain("FROM nodes n0");
+      expect(bindings).toEqual([30]);
+    });
+
+    it("should reject invalid patterns", () => {
+      expect(() => graph.match("(p RETURN p")).toThrow(ValidationError);
+      expect(() => graph.match("(p) RETURN q")).toThrow("Unknown variable 'q'");
+      expect(() => graph.match("(p {age: $age}) RETURN p")).toThrow(
+        "Missing parameter $age",
+      );
+      expect(() => graph.match("(a)-[r*2]->(b) RETURN a")).toThrow(
+        ValidationError,
+      );
+    });
+  });
+
+  describe("Full-Text Search", () => {
+    beforeEach(() => {
+      graph.addNode(
+        {
+          type: "post",
+          title: "Graph databases",
+          text: "Storing graphs in SQLite",
+          place: { city: "Paris" },
+        },
+        "p1",
+      );
+      graph.enableTextSearch(["title", "text", "place.city"]);
+      graph.addNode(
+        { type: "post", title: "Cooking", text: "Crêpes from Paris" },
+        "p2",
+      );
+      graph.addNode(
+        { type: "draft", title: "SQLite tips", text: "Faster graph queries" },
+        "p3",
+      );
+    });
+
+    it("should index existing and new nodes", () => {
+      expect(graph.textSearchFields()).toEqual(["title", "text", "place.city"]);
+      const results = graph.searchText("graph");
+      expect(results.map((r) => (r.node as any).id).sort()).toEqual([
+        "p1",
+        "p3",
+      ]);
+      expect(results[0]!.score).toBeGreaterThan(0);
+      expect(graph.searchText("crepes").map((r) => (r.node as any).id)).toEqual(
+        ["p2"],
+      );
+    });
+
+    it("should return snippets and highlights", () => {
+      const [result] = graph.searchText("faster", { highlight: ["[", "]"] });
+      expect(result!.snippet).toBe("[Faster] graph queries");
+      expect(result!.highlights).toEqual({
+        title: "SQLite tips",
+        text: "[Faster] graph queries",
+      });
+    });
+
+    it("should restrict fields and combine with filters", () => {
+      expect(
+        graph
+          .searchText("paris", { fields: ["place.city"] })
+          .map((r) => (r.node as any).id),
+      ).toEqual(["p1"]);
+      expect(
+        graph
+          .searchText("graph", { where: query().where("type", "=", "draft") })
+          .map((r) => (r.node as any).id),
+      ).toEqual(["p3"]);
+      expect(graph.searchText("graph OR paris", { limit: 2 })).toHaveLength(2);
+      expect(() => graph.searchText("graph", { fields: ["missing"] })).toThrow(
+        ValidationError,
+      );
+    });
+
+    it("should keep queries inside the field filter", () => {
+      expect(() =>
+        graph.searchText("x) OR (graph", { fields: ["title"] }),
+      ).toThrow(ValidationError);
+      expect(() => graph.searchText("(graph", { fields: ["title"] })).toThrow(
+        ValidationError,
+      );
+      expect(
+        graph
+          .searchText('(graph OR "a)") AND databases', { fields: ["title"] })
+          .map((r) => (r.node as any).id),
+      ).toEqual(["p1"]);
+    });
+
+    it("should stay in sync with updates and removals", () => {
+      graph.updateNodeBody("p3", {
+        type: "draft",
+        title: "Other",
+        text: "Nothing here",
+      });
+      graph.removeNode("p1");
+      expect(graph.searchText("graph")).toEqual([]);
+      expect(graph.searchText("nothing")).toHaveLength(1);
+    });
+
+    it("should reject invalid queries and searches when disabled", () => {
+      expect(() => graph.searchText('"unterminated')).toThrow(ValidationError);
+      graph.disableTextSearch();
+      expect(graph.textSearchFields()).toEqual([]);
+      expect(() => graph.searchText("graph")).toThrow(
+        "Text search is not enabled",
+      );
+      graph.addNode({ title: "still writable" }, "p4");
+    });
+  });
+
+  describe("Embeddings", () => {
+    beforeEach(() => {
+      graph.addNodes(
+        [
+          { type: "doc", title: "a" },
+          { type: "doc", title: "b" },
+          { type: "doc", title: "c" },
+          { type: "topic", title: "d" },
+        ],
+        ["a", "b", "c", "d"],
+      );
+      graph.setNodeEmbedding("a", new Float32Array([1, 0, 0]));
+      graph.setNodeEmbedding("b", [0.9, 0.1, 0]);
+      graph.setNodeEmbedding("c", [0, 1, 0]);
+      graph.setNodeEmbedding("d", [1, 0.05, 0]);
+    });
+
+    it("should store embeddings as float32 vectors", () => {
+      expect(graph.getNodeEmbedding("c")).toEqual(new Float32Array([0, 1, 0]));
+      expect(graph.getNodeEmbedding("missing")).toBeNull();
+      expect(() => graph.setNodeEmbedding("a", [1, 2])).toThrow(
+        ValidationError,
+      );
+      expect(() => graph.setNodeEmbedding("missing", [1, 2, 3])).toThrow(
+        NotFoundError,
+      );
+
+      graph.removeNodeEmbedding("c");
+      expect(graph.getNodeEmbedding("c")).toBeNull();
+      graph.removeNode("a");
+      expect(graph.getNodeEmbedding("a")).toBeNull();
+    });
+
+    it("should find nearest nodes by each metric", () => {
+      const ids = (results: { node: object }[]) =>
+        results.map((r) => (r.node as any).id);
+      expect(ids(graph.nearestNodes([1, 0, 0], { k: 2 }))).toEqual(["a", "d"]);
+      expect(
+        ids(graph.nearestNodes([0, 2, 0], { k: 1, metric: "dot" })),
+      ).toEqual(["c"]);
+
+      const [closest] = graph.nearestNodes([1, 0, 0], { k: 1, metric: "l2" });
+      expect(closest!.score).toBe(0);
+      expect(() => graph.nearestNodes([1, 0])).toThrow(ValidationError);
+    });
+
+    it("should prefilter candidates", () => {
+      const results = graph.nearestNodes([1, 0, 0], {
+        k: 2,
+        filter: query().where("type", "=", "doc").where("title", "!=", "a"),
+      });
+      expect(results.map((r) => (r.node as any).id)).toEqual(["b", "c"]);
+    });
+
+    it("should expand nearest hits through the graph", () => {
+      graph.connectNodes("a", "c", "e1");
+      const { hits, context } = graph.expandNearest([1, 0, 0], { k: 1 });
+      expect(hits.map((r) => (r.node as any).id)).toEqual(["a"]);
+      expect(
+        context
+          .filter((item) => item.node)
+          .map((item) => item.node!.identifier),
+      ).toEqual(["a", "c"]);
+      expect(context.find((item) => item.edge)!.edge!.id).toBe("e1");
+    });
+  });
+
+  describe("Labels and Edge Types", () => {
+    beforeEach(() => {
+      graph.addNode({ name: "Alice" }, "a", { labels: ["Person", "Admin"] });
+      graph.addNode({ name: "Bob" }, "b", { labels: ["Person"] });
+      graph.addNode({ name: "Acme" }, "x", { labels: ["Company"] });
+      graph.connectNodes("a", "b", "e1", { type: "follows" });
+      graph.connectNodesWithProperties("a", "x", { since: 2020 }, "e2", {
+        type: "works_at",
+      });
+      graph.connectNodes("b", "x", "e3");
+    });
+
+    it("should store labels and types apart from bodies", () => {
+      expect(graph.findNode("a")).toEqual({ name: "Alice", id: "a" });
+      expect(graph.nodeLabels("a")).toEqual(["Admin", "Person"]);
+      expect(graph.findEdge("e2")).toEqual({
+        id: "e2",
+        source: "a",
+        target: "x",
+        properties: { since: 2020 },
+        type: "works_at",
+      });
+      expect(graph.findEdge("e3")!.type).toBeUndefined();
+      expect(graph.labels()).toEqual({
+        nodes: { Admin: 1, Company: 1, Person: 2 },
+        edges: { follows: 1, works_at: 1 },
+      });
+    });
+
+    it("should update labels and types", () => {
+      graph.addLabels("b", ["Admin"]);
+      graph.removeLabels("a", ["Admin"]);
+      expect(graph.nodeLabels("b")).toEqual(["Admin", "Person"]);
+      expect(graph.nodeLabels("a")).toEqual(["Person"]);
+      graph.setEdgeType("e3", "works_at");
+      graph.setEdgeType("e1", null);
+      expect(graph.labels().edges).toEqual({ works_at: 2 });
+
+      graph.removeNode("b", { policy: "cascade" });
+      expect(graph.labels().nodes).toEqual({ Company: 1, Person: 1 });
+      expect(() => graph.addLabels("missing", ["Person"])).toThrow(
+        NotFoundError,
+      );
+      expect(() =>
+        graph.addNode({ name: "Eve" }, "e", { labels: [""] }),
+      ).toThrow(ValidationError);
+      expect(graph.findNode("e")).toBeNull();
+    });
+
+    it("should filter nodes by label", () => {
+      expect(graph.findNodes({ labels: ["Person", "Admin"] })).toEqual([
+        { name: "Alice", id: "a" },
+      ]);
+      expect(
+        graph.query().labeled("Person").where("name", "!=", "Alice").all(),
+      ).toEqual([{ name: "Bob", id: "b" }]);
+      expect(graph.countNodes(query().labeled("Person"))).toBe(2);
+    });
+
+    it("should filter connections and traversals by edge type", () => {
+      expect(
+        graph.connectionsOut("a", { types: ["follows"] }).map((e) => e.id),
+      ).toEqual(["e1"]);
+      expect(
+        graph.connectionsIn("x", { types: ["works_at"] }).map((e) => e.id),
+      ).toEqual(["e2"]);
+      expect(graph.connections("b", { types: [] })).toEqual([]);
+      expect(
+        [...graph.iterateEdges({ type: "follows" })].map((e) => e.id),
+      ).toEqual(["e1"]);
+      expect(
+        graph
+          .traverse("a", { outbound: true, edgeTypes: ["follows"] })
+          .map((item) => item.node!.identifier),
+      ).toEqual(["a", "b"]);
+    });
+
+    it("should return edge types from traversals", () => {
+      for (const config of [
+        { outbound: true, withBodies: true },
+        { outbound: true, withBodies: true, maxDepth: 2 },
+        { outbound: true, withBodies: true, order: "bfs" as const },
+      ]) {
+        const edges = graph
+          .traverse("a", config)
+          .filter((item) => item.edge)
+          .map((item) => item.edge!);
+        expect(edges.find((edge) => edge.id === "e1")!.type).toBe("follows");
+        expect(edges.find((edge) => edge.id === "e3")!.type).toBeUndefined();
+      }
+    });
+
+    it("should match labels and types in patterns", () => {
+      expect(
+        graph.match(
+          "(p:Person)-[r:works_at|follows]->(q) RETURN r.since, q.name ORDER BY q.name",
+        ),
+      ).toEqual([
+        { "r.since": 2020, "q.name": "Acme" },
+        { "r.since": null, "q.name": "Bob" },
+      ]);
+      expect(
+        graph.match(
+          "(p:Person:Admin)-[:follows*1..2]->(q:Person) RETURN q.name",
+        ),
+      ).toEqual([{ "q.name": "Bob" }]);
+    });
+  });
+
+  describe("Subgraphs, Merge and Diff", () => {
+    // d -> a -> b -> c
+    beforeEach(() => {
+      graph.addNode({ name: "a" }, "a", { labels: ["Seed"] });
+      graph.addNodes(
+        [{ name: "b" }, { name: "c" }, { name: "d" }],
+        ["b", "c", "d"],
+      );
+      graph.connectNodes("a", "b", "e1", { type: "next" });
+      graph.connectNodesWithProperties("b", "c", { weight: 2 }, "e2");
+      graph.connectNodes("d", "a", "e3");
+    });
+
+    it("should extract a subgraph with the edges between its nodes", () => {
+      const sub = graph.extractSubgraph(["a"], { depth: 1 });
+      expect(sub.findNodes({ orderBy: [{ key: "name" }] })).toEqual([
+        { name: "a", id: "a" },
+        { name: "b", id: "b" },
+      ]);
+      expect([...sub.iterateEdges()]).toEqual([
+        { id: "e1", source: "a", target: "b", properties: {}, type: "next" },
+      ]);
+      expect(sub.nodeLabels("a")).toEqual(["Seed"]);
+
+      const component = graph.extractSubgraph(["b"], { direction: "both" });
+      expect(component.countNodes()).toBe(4);
+      expect([...component.iterateEdges()]).toHaveLength(3);
+      expect(() => graph.extractSubgraph(["missing"])).toThrow(NotFoundError);
+    });
+
+    it("should extract into another graph or a database file", () => {
+      const existing = createGraph();
+      expect(graph.extractSubgraph(["b"], { into: existing })).toBe(existing);
+      expect(existing.countNodes()).toBe(2);
+
+      const dir = mkdtempSync(join(tmpdir(), "simple-graph-"));
+      try {
+        const file = join(dir, "subgraph.db");
+        graph.extractSubgraph(["c"], { into: file });
+        expect(createGraph(file).findNode("c")).toEqual({ name: "c", id: "c" });
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it("should merge graphs with a conflict policy", () => {
+      const other = createGraph();
+      other.addNode({ name: "a2", extra: true }, "a", { labels: ["Other"] });
+      other.addNode({ name: "e" }, "e");
+      other.connectNodesWithProperties("e", "a", { weight: 1 }, "e4");
+
+      expect(() => graph.mergeGraph(other)).toThrow(ConstraintError);
+      expect(graph.findNode("e")).toBeNull();
+
+      expect(graph.mergeGraph(other, { onConflict: "replace" })).toEqual({
+        nodes: { added: 1, updated: 1, skipped: 0 },
+        edges: { added: 1, updated: 0, skipped: 0 },
+      });
+      expect(graph.findNode("a")).toEqual({ name: "a2", extra: true, id: "a" });
+      expect(graph.nodeLabels("a")).toEqual(["Other"]);
+      expect(graph.findEdge("e4")!.source).toBe("e");
+      expect(() => graph.mergeGraph(graph)).toThrow(ValidationError);
+    });
+
+    it("should diff two graphs", () => {
+      const copy = createGraph();
+      copy.mergeGraph(graph);
+      expect(diffGraphs(graph, copy)).toEqual({
+        nodes: { added: [], removed: [], changed: [] },
+        edges: { added: [], removed: [], changed: [] },
+      });
+
+      copy.updateNodeBody("b", { name: "B" });
+      copy.addNode({ name: "e" }, "e");
+      copy.removeEdge("e3");
+      copy.updateEdge("e2", { weight: 3 });
+      const diff = diffGraphs(graph, copy);
+      expect(diff.nodes).toEqual({
+        added: [{ name: "e", id: "e" }],
+        removed: [],
+        changed: [
+          {
+            id: "b",
+            before: { name: "b", id: "b" },
+            after: { name: "B", id: "b" },
+          },
+        ],
+      });
+      expect(diff.edges.removed.map((edge) => edge.id)).toEqual(["e3"]);
+      expect(diff.edges.changed).toEqual([
+        {
+          id: "e2",
+          before: {
+            id: "e2",
+            source: "b",
+            target: "c",
+            properties: { weight: 2 },
+          },
+          after: {
+            id: "e2",
+            source: "b",
+            target: "c",
+            properties: { weight: 3 },
+          },
+        },
+      ]);
+    });
+  });
+
+  describe("Traversal Operations", () => {
+    beforeEach(() => {
+      // Create a deeper graph: user-1 -> user-2 -> user-3 -> user-4
+      //                              \-> project-1 -/
+      graph.addNode({ name: "Alice" }, "user-1");
+      graph.addNode({ name: "Bob" }, "user-2");
+      graph.addNode({ name: "Charlie" }, "user-3");
+      graph.addNode({ name: "David" }, "user-4");
+      graph.addNode({ title: "Project Alpha" }, "project-1");
+
+      graph.connectNodes("user-1", "user-2");
+      graph.connectNodes("user-2", "user-3");
+      graph.connectNodes("user-3", "user-4");
+      graph.connectNodes("user-1", "project-1");
+      graph.connectNodes("project-1", "user-3");
+    });
+
+    describe("traverse", () => {
+      it("should traverse outbound without bodies", () => {
+        const results = graph.traverse("user-1", { outbound: true });
+
+        expect(results.length).toBeGreaterThan(0);
+        expect(results.some((r) => r.node?.identifier === "user-1")).toBe(true);
+        expect(results.some((r) => r.node?.identifier === "user-2")).toBe(true);
+      });
+
+      it("should traverse with bodies and correctly track edges", () => {
+        const results = graph.traverse("user-1", {
+          withBodies: true,
+          outbound: true,
+        });
+
+        expect(results.length).toBeGreaterThan(0);
+
+        // Check nodes are found
+        const aliceNode = results.find(
+          (r) => (r.node?.body as any)?.name === "Alice",
+        );
+        expect(aliceNode).toBeDefined();
+
+        // Check edges maintain correct source/target at all depths
+        const edges = results.filter((r) => r.edge).map((r) => r.edge!);
+
+        // Direct edges from user-1
+        const user1ToUser2 = edges.find(
+          (e) => e.source === "user-1" && e.target === "user-2",
+        );
+        expect(user1ToUser2).toBeDefined();
+
+        const user1ToProject = edges.find(
+          (e) => e.source === "user-1" && e.target === "project-1",
+        );
+        expect(user1ToProject).toBeDefined();
+
+        // Edges at depth 2 should maintain correct source/target
+        const user2ToUser3 = edges.find(
+          (e) => e.source === "user-2" && e.target === "user-3",
+        );
+        expect(user2ToUser3).toBeDefined();
+
+        const projectToUser3 = edges.find(
+          (e) => e.source === "project-1" && e.target === "user-3",
+        );
+        expect(projectToUser3).toBeDefined();
+
+        // Edge at depth 3
+        const user3ToUser4 = edges.find(
+          (e) => e.source === "user-3" && e.target === "user-4",
+        );
+        expect(user3ToUser4).toBeDefined();
+      });
+
+      it("should traverse inbound", () => {
+        const results = graph.traverse("user-3", { inbound: true });
+
+        expect(results.length).toBeGreaterThan(0);
+        expect(results.some((r) => r.node?.identifier === "user-3")).toBe(true);
+      });
+
+      it("should stop at maxDepth", () => {
+        const results = graph.traverse("user-1", {
+          outbound: true,
+          maxDepth: 1,
+        });
+        const ids = results.map((r) => r.node?.identifier).sort();
+
+        expect(ids).toEqual(["project-1", "user-1", "user-2"]);
+      });
+
+      it("should only return the source node when maxDepth is 0", () => {
+        const results = graph.traverse("user-1", {
+          outbound: true,
+          maxDepth: 0,
+        });
+
+        expect(results).toEqual([
+          { node: { identifier: "user-1", body: {} }, depth: 0 },
+        ]);
+      });
+
+      it("should report the shortest depth for nodes and edges", () => {
+        const results = graph.traverse("user-1", {
+          withBodies: true,
+          outbound: true,
+          maxDepth: 3,
+        });
+
+        const depthOf = (id: string) =>
+          results.find((r) => r.node?.identifier === id)?.depth;
+        expect(depthOf("user-1")).toBe(0);
+        expect(depthOf("user-2")).toBe(1);
+        expect(depthOf("user-3")).toBe(2);
+        expect(depthOf("user-4")).toBe(3);
+        expect(results.filter((r) => r.node?.identifier === "user-3"))
+          .toHaveLength(1);
+
+        const edge = results.find(
+          (r) => r.edge?.source === "user-3" && r.edge?.target === "user-4",
+        );
+        expect(edge?.depth).toBe(3);
+      });
+
+      it("should terminate on cycles when maxDepth is set", () => {
+        graph.connectNodes("user-4", "user-1");
+        const results = graph.traverse("user-1", {
+          outbound: true,
+          maxDepth: 10,
+        });
+
+        expect(results).toHaveLength(5);
+        expect(results.every((r) => r.depth !== undefined)).toBe(true);
+      });
+
+      it("should throw ValidationError for invalid maxDepth", () => {
+        expect(() => {
+          graph.traverse("user-1", { outbound: true, maxDepth: -1 });
+        }).toThrow(ValidationError);
+      });
+
+      it("should traverse bidirectional", () => {
+        const results = graph.traverse("user-2", {
+          inbound: true,
+          outbound: true,
+        });
+
+        expect(results.length).toBeGreaterThan(0);
         expect(results.some((r) => r.node?.identifier === "user-2")).toBe(true);
       });
     });
+
+    describe("filtered traversal", () => {
+      const ids = (results: { node?: { identifier: string | number } }[]) =>
+        results.filter((r) => r.node).map((r) => r.node!.identifier);
+
+      it("should prune nodes that fail node filters", () => {
+        const named = graph.traverse("user-1", {
+          outbound: true,
+          nodeFilters: [{ key: "name", predicate: "LIKE", value: "%" }],
+        });
+        expect(ids(named).sort()).toEqual([
+          "user-1",
+          "user-2",
+          "user-3",
+          "user-4",
+        ]);
+
+        // Only the project passes, and the walk cannot continue through it
+        const results = graph.traverse("user-1", {
+          outbound: true,
+          nodeFilters: query().where("title", "LIKE", "Project%"),
+        });
+        expect(ids(results).sort()).toEqual(["project-1", "user-1"]);
+      });
+
+      it("should only follow edges that pass edge filters", () => {
+        graph.connectNodesWithProperties("user-4", "user-1", { kind: "loop" });
+        graph.connectNodesWithProperties("user-1", "user-4", {
+          kind: "shortcut",
+        });
+        const results = graph.traverse("user-4", {
+          outbound: true,
+          withBodies: true,
+          edgeFilters: query().where("kind", "=", "loop"),
+        });
+        expect(ids(results).sort()).toEqual(["user-1", "user-4"]);
+        expect(
+          results.filter((r) => r.edge).map((r) => r.edge!.properties),
+        ).toEqual([{ kind: "loop" }]);
+      });
+
+      it("should walk breadth- or depth-first", () => {
+        expect(
+          ids(graph.traverse("user-1", { outbound: true, order: "bfs" })),
+        ).toEqual(["user-1", "user-2", "project-1", "user-3", "user-4"]);
+        expect(
+          ids(graph.traverse("user-1", { outbound: true, order: "dfs" })),
+        ).toEqual(["user-1", "user-2", "user-3", "user-4", "project-1"]);
+
+        const bfs = graph.traverse("user-1", {
+          outbound: true,
+          order: "bfs",
+          maxDepth: 1,
+        });
+        expect(bfs.map((r) => r.depth)).toEqual([0, 1, 1]);
+      });
+
+      it("should limit results", () => {
+        expect(
+          graph.traverse("user-1", { outbound: true, limit: 2 }),
+        ).toHaveLength(2);
+        const walked = graph.traverse("user-1", {
+          outbound: true,
+          withBodies: true,
+          order: "bfs",
+          limit: 3,
+        });
+        expect(
+          walked.map((r) => (r.node ? r.node.identifier : "edge")),
+        ).toEqual(["user-1", "edge", "edge"]);
+        expect(() =>
+          graph.traverse("user-1", { outbound: true, limit: -1 }),
+        ).toThrow(ValidationError);
+      });
+    });
+
+    describe("shortestPath", () => {
+      it("should return the path with the fewest hops", () => {
+        const path = graph.shortestPath("user-1", "user-4");
+
+        expect(path).not.toBeNull();
+        expect(path!.nodes).toHaveLength(4);
+        expect(path!.nodes[0]).toEqual({
+          identifier: "user-1",
+          body: { id: "user-1", name: "Alice" },
+        });
+        expect(path!.nodes[3]?.identifier).toBe("user-4");
+        expect(path!.edges).toHaveLength(3);
+        expect(path!.edges[2]).toEqual({
+          id: expect.any(String),
+          source: "user-3",
+          target: "user-4",
+          properties: {},
+        });
+        expect(path!.cost).toBe(3);
+      });
+
+      it("should find paths between numeric ids", () => {
+        const numeric = createGraph();
+        numeric.addNode({}, 1);
+        numeric.addNode({}, 2);
+        numeric.addNode({}, 3);
+        numeric.connectNodes(1, 2);
+        numeric.connectNodes(2, 3);
+
+        expect(
+          numeric.shortestPath(1, 3)!.nodes.map((node) => node.identifier),
+        ).toEqual(["1", "2", "3"]);
+        expect(
+          numeric.shortestPath(3, 1, { direction: "inbound" })!.edges,
+        ).toHaveLength(2);
+        expect(numeric.shortestPath(1, 3, { direction: "both" })!.cost).toBe(2);
+        expect(
+          numeric.allPaths(1, 3)[0]!.nodes.map((node) => node.identifier),
+        ).toEqual(["1", "2", "3"]);
+        expect(
+          numeric
+            .traverse(1, { outbound: true, withBodies: true })
+            .flatMap((row) => (row.node ? [row.node.identifier] : [])),
+        ).toEqual(["1", "2", "3"]);
+      });
+
+      it("should use edge weights when configured", () => {
+        graph.addNode({ name: "Eve" }, "user-5");
+        graph.connectNodesWithProperties("user-1", "user-5", { cost: 10 });
+        graph.connectNodesWithProperties("user-5", "user-4", { cost: 10 });
+
+        const path = graph.shortestPath("user-1", "user-5", { weight: "cost" });
+        expect(path!.nodes.map((n) => n.identifier)).toEqual([
+          "user-1",
+          "user-5",
+        ]);
+        expect(path!.cost).toBe(10);
+
+        const viaWeights = graph.shortestPath("user-1", "user-4", {
+          weight: "cost",
+        });
+        expect(viaWeights!.cost).toBe(3);
+      });
+
+      it("should return null when no path exists", () => {
+        expect(graph.shortestPath("user-4", "user-1")).toBeNull();
+        expect(
+          graph.shortestPath("user-1", "user-4", { maxDepth: 2 }),
+        ).toBeNull();
+      });
+
+      it("should follow edges inbound", () => {
+        const path = graph.shortestPath("user-4", "user-1", {
+          direction: "inbound",
+        });
+
+        expect(path!.nodes.map((n) => n.identifier)).toEqual([
+          "user-4",
+          "user-3",
+          "user-2",
+          "user-1",
+        ]);
+      });
+    });
+
+    describe("allPaths", () => {
+      it("should return every simple path ordered by length", () => {
+        const paths = graph.allPaths("user-1", "user-3");
+
+        expect(paths.map((p) => p.nodes.map((n) => n.identifier))).toEqual(
+          expect.arrayContaining([
+            ["user-1", "user-2", "user-3"],
+            ["user-1", "project-1", "user-3"],
+          ]),
+        );
+        expect(paths).toHaveLength(2);
+        expect(paths[0]?.edges).toHaveLength(2);
+      });
+
+      it("should respect maxDepth and direction", () => {
+        expect(graph.allPaths("user-1", "user-4", { maxDepth: 2 })).toEqual(
+          [],
+        );
+        expect(
+          graph.allPaths("user-4", "user-1", { direction: "both" }),
+        ).toHaveLength(2);
+      });
+
+      it("should not loop on cycles", () => {
+        graph.connectNodes("user-4", "user-1");
+        const paths = graph.allPaths("user-1", "user-4");
+
+        expect(paths).toHaveLength(2);
+      });
+    });
   });
 });